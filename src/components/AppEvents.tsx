@@ -1,10 +1,13 @@
 import { useEffect } from "react";
 
+import Offline from "../model/Offline";
 import Sensor from "../model/Sensor";
 import Settings from "../model/Settings";
 import Track from "../model/Track";
+import WorkerPool from "../model/WorkerPool";
 import DrivingTab from "../pages/DrivingTab";
 import HelpPage from "../pages/HelpPage";
+import OfflinePage from "../pages/OfflinePage";
 import SettingsTab from "../pages/SettingsTab";
 import database from "../utils/database";
 import shortcut from "../utils/shortcut";
@@ -23,12 +26,25 @@ export default function AppEvents() {
     return () => Settings.removeTickTimer();
   }, [settings.ticksPerSec]);
 
+  useEffect(() => {
+    if (settings.useWorkers) {
+      WorkerPool.start();
+    }
+    return () => WorkerPool.stop();
+  }, [settings.useWorkers, settings.maxWorkers]);
+
   return null;
 }
 
 AppEvents.initialize = async function () {
   await database.initialize();
   await Settings.load();
-  await Promise.all([DrivingTab.init(), SettingsTab.init(), HelpPage.init()]);
+  await Promise.all([
+    DrivingTab.init(),
+    SettingsTab.init(),
+    HelpPage.init(),
+    OfflinePage.init(),
+  ]);
   await Promise.all([Track.loadAll(), Sensor.loadAll()]);
+  await Offline.simulate();
 };
@@ -0,0 +1,101 @@
+import {
+  IonButton,
+  IonChip,
+  IonCol,
+  IonItem,
+  IonLabel,
+  IonRow,
+} from "@ionic/react";
+
+import Car from "../model/Car";
+import Network from "../model/Network";
+import Settings from "../model/Settings";
+import Track from "../model/Track";
+
+// Changes the layers of the best network in place. Every change keeps the
+// network driving the same way, except for removing neurons
+export default function NetworkEditor() {
+  const settings = Settings.useHook();
+  const net = settings.sotaNet;
+  const network = new Network(net);
+
+  async function change(fn: (net: Network) => Network) {
+    settings.set({ sotaNet: fn(new Network(settings.sotaNet)).config });
+
+    // Cars still driving with the old layers start over from the new ones
+    const track = Track.registry.get()[settings.currentTrack];
+    if (track) {
+      await Car.restartGeneration(track);
+    }
+  }
+
+  return (
+    <>
+      <IonRow>
+        <IonCol size="12">
+          <IonItem>
+            <IonLabel>Inputs</IonLabel>
+            <IonChip slot="end">{net.input}</IonChip>
+          </IonItem>
+        </IonCol>
+      </IonRow>
+      {[...net.hidden, undefined].map((size, idx) => (
+        <IonRow key={idx}>
+          <IonCol size="12" class="ion-text-center">
+            <IonButton
+              size="small"
+              fill="clear"
+              title="Add a layer that passes on its inputs as they are"
+              onClick={() => change((net) => net.insertLayer(idx))}
+            >
+              + Layer
+            </IonButton>
+          </IonCol>
+          {size !== undefined && (
+            <IonCol size="12">
+              <IonItem>
+                <IonLabel>Hidden layer {idx + 1}</IonLabel>
+                <IonButton
+                  slot="end"
+                  size="small"
+                  disabled={size < 2}
+                  title="Remove a neuron, and what it learned"
+                  onClick={() => change((net) => net.removeNeuron(idx))}
+                >
+                  &minus;
+                </IonButton>
+                <IonChip slot="end">{size} neurons</IonChip>
+                <IonButton
+                  slot="end"
+                  size="small"
+                  title="Add a neuron, which starts out not contributing"
+                  onClick={() => change((net) => net.insertNeuron(idx))}
+                >
+                  +
+                </IonButton>
+                <IonButton
+                  slot="end"
+                  size="small"
+                  color="danger"
+                  disabled={!network.canRemoveLayer(idx)}
+                  title="Fold this layer into the next one"
+                  onClick={() => change((net) => net.removeLayer(idx))}
+                >
+                  Remove
+                </IonButton>
+              </IonItem>
+            </IonCol>
+          )}
+        </IonRow>
+      ))}
+      <IonRow>
+        <IonCol size="12">
+          <IonItem>
+            <IonLabel>Outputs</IonLabel>
+            <IonChip slot="end">{net.output}</IonChip>
+          </IonItem>
+        </IonCol>
+      </IonRow>
+    </>
+  );
+}
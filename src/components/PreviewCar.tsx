@@ -11,12 +11,13 @@ import {
 
 import Car from "../model/Car";
 import Sensor from "../model/Sensor";
+import Settings from "../model/Settings";
 import Track from "../model/Track";
 import clamp from "../utils/clamp";
 import Format from "../utils/format";
 
 export default function PreviewCar({ car, track }: { car: Car; track: Track }) {
-  const sensors = Sensor.useHook();
+  const settings = Settings.useHook();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const canvas = useMemo(
     () => (
@@ -50,8 +51,9 @@ export default function PreviewCar({ car, track }: { car: Car; track: Track }) {
         <IonCol size="12">
           <IonItem>
             <IonLabel>{car.name}</IonLabel>
+            <IonChip slot="end">{car.vehicle.label}</IonChip>
             <IonChip slot="end">
-              {car.laps >= 3 ? "Finished" : car.collided ? "Crashed" : "Active"}
+              {car.finished ? "Finished" : car.collided ? "Crashed" : "Active"}
             </IonChip>
             <IonChip slot="end">{Format(car.odometer, { prec: 0 })}px</IonChip>
             <IonChip slot="end">{Format(score.time, { prec: 1 })}s</IonChip>
@@ -63,23 +65,28 @@ export default function PreviewCar({ car, track }: { car: Car; track: Track }) {
             <IonLabel>Sensor Inputs:</IonLabel>
           </IonItem>
           {car.sensorReadings &&
-            car.sensorReadings.length == sensors.length &&
-            sensors.map((sensor, i) => (
+            car.sensorReadings.length == settings.sensorInputs() &&
+            Sensor.split(car.sensorReadings, car.sensors).map((readings, i) => (
               <IonItem key={i}>
                 <IonChip slot="end">
-                  <span>
-                    &ang;{Format(sensor.angle * (180 / Math.PI), { prec: 0 })}
-                    &deg;
-                  </span>
-                  &nbsp;
-                  <span>&#10217;{Format(sensor.range, { prec: 0 })}px</span>
+                  <span>{car.sensors[i]?.label}</span>
                   &nbsp;
                   <span>
-                    &#8658; {Format(car.sensorReadings[i], { prec: 3 })}
+                    {/* Arrays of rays show the closest reading */}
+                    &#8658;{readings.length > 1 && " min"}{" "}
+                    {Format(Math.min(...readings), { prec: 3 })}
                   </span>
                 </IonChip>
               </IonItem>
             ))}
+          {settings.nearestCarInput && (
+            <IonItem>
+              <IonLabel>Nearest car</IonLabel>
+              <IonChip slot="end">
+                &#8658; {Format(car.nearestCar, { prec: 3 })}
+              </IonChip>
+            </IonItem>
+          )}
         </IonCol>
         <IonCol size="4">
           <IonItem>
@@ -108,6 +115,10 @@ export default function PreviewCar({ car, track }: { car: Car; track: Track }) {
               {Format(car.angle * (180 / Math.PI), { prec: 1 })} &deg;
             </IonChip>
           </IonItem>
+          <IonItem>
+            <IonLabel>Surface</IonLabel>
+            <IonChip slot="end">{car.surface}</IonChip>
+          </IonItem>
         </IonCol>
         <IonCol size="4" class="ion-text-end">
           <IonItem>
@@ -0,0 +1,497 @@
+import { PointerEvent, useEffect, useMemo, useRef, useState } from "react";
+
+import {
+  IonButton,
+  IonCheckbox,
+  IonCol,
+  IonInput,
+  IonItem,
+  IonLabel,
+  IonRow,
+  IonSelect,
+  IonSelectOption,
+} from "@ionic/react";
+
+import Car from "../model/Car";
+import Network from "../model/Network";
+import Sensor from "../model/Sensor";
+import Settings, { SensorConfig } from "../model/Settings";
+import Track from "../model/Track";
+import clamp from "../utils/clamp";
+
+// Sensor being edited, along with the sensor of the settings it started as
+interface Draft {
+  config: SensorConfig;
+  source?: number;
+}
+
+type Kind = NonNullable<SensorConfig["kind"]>;
+
+const KINDS: Record<Kind, string> = {
+  ray: "Ray",
+  cone: "Cone",
+  lidar: "Lidar",
+  curvature: "Curvature",
+  surface: "Surface",
+  heading: "Heading",
+};
+
+export default function SensorEditor() {
+  const settings = Settings.useHook();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [drafts, setDrafts] = useState<Draft[]>(() => fromSettings());
+  const [dragging, setDragging] = useState<number | undefined>(undefined);
+  const [resizeNet, setResizeNet] = useState(true);
+  const [loaded, setLoaded] = useState(0);
+  const vehicle = settings.vehicleProfile(settings.populationVehicle);
+
+  // Start over from the sensors in use whenever they change, including
+  // after applying the drafts
+  useEffect(() => setDrafts(fromSettings()), [settings.sensors]);
+
+  const sensors = useMemo(
+    () => drafts.map(({ config }) => Sensor.create(config)),
+    [drafts],
+  );
+  const inputs = sensors.reduce((count, sensor) => count + sensor.inputs, 0);
+  const changed =
+    JSON.stringify(drafts.map(({ config }) => config)) !==
+    JSON.stringify(settings.sensors);
+  const scale =
+    (PREVIEW_SIZE / 2 - 10) /
+    Math.max(...sensors.map((sensor) => sensor.range), 100);
+
+  // The best network needs its inputs moved around when the sensors don't
+  // line up with them anymore
+  const sources = inputSources(drafts, settings);
+  const remapped =
+    sources.length !== settings.sotaNet.input ||
+    sources.some((source, idx) => source !== idx);
+
+  // An evolved layout can be used as is when it fits the current sensors
+  const evolved = Car.adaptLayout(settings.sotaSensors);
+  const canUseEvolved =
+    settings.sotaSensors.length > 0 && evolved === settings.sotaSensors;
+
+  // The images of the sensors load in the background, so the preview is
+  // drawn again once they're ready
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(sensors.map((sensor) => sensor.fetchImageData())).then(() => {
+      if (!cancelled) {
+        setLoaded((n) => n + 1);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sensors]);
+
+  useEffect(() => {
+    if (!canvasRef.current) {
+      return;
+    }
+    const context = canvasRef.current.getContext("2d", { alpha: false })!;
+    context.resetTransform();
+    context.fillStyle = "#222";
+    context.fillRect(0, 0, PREVIEW_SIZE, PREVIEW_SIZE);
+
+    // The car points up, with the sensors to its right on the right
+    context.translate(PREVIEW_SIZE / 2, PREVIEW_SIZE / 2);
+    context.rotate(-Math.PI / 2);
+    context.scale(scale, scale);
+    sensors.forEach((sensor) => sensor.render(context));
+    context.fillStyle = "#33eeee";
+    context.fillRect(
+      -vehicle.width / 2,
+      -vehicle.height / 2,
+      vehicle.width,
+      vehicle.height,
+    );
+
+    context.fillStyle = "white";
+    drafts.forEach(({ config }, idx) => {
+      const handle = handleOf(config);
+      if (handle) {
+        context.beginPath();
+        context.arc(
+          handle.x,
+          handle.y,
+          (idx === dragging ? 6 : 4) / scale,
+          0,
+          Math.PI * 2,
+        );
+        context.fill();
+      }
+    });
+    context.resetTransform();
+  }, [sensors, loaded, dragging, scale, vehicle.width, vehicle.height]);
+
+  // Position of the pointer around the car, in px of the track
+  function pointerAt(event: PointerEvent<HTMLCanvasElement>) {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = (event.clientX - rect.left) * (PREVIEW_SIZE / rect.width);
+    const y = (event.clientY - rect.top) * (PREVIEW_SIZE / rect.height);
+    return {
+      x: (PREVIEW_SIZE / 2 - y) / scale,
+      y: (x - PREVIEW_SIZE / 2) / scale,
+    };
+  }
+
+  function onPointerDown(event: PointerEvent<HTMLCanvasElement>) {
+    const pointer = pointerAt(event);
+    let closest = 10 / scale;
+    let picked: number | undefined = undefined;
+    drafts.forEach(({ config }, idx) => {
+      const handle = handleOf(config);
+      const dist =
+        handle && Math.hypot(handle.x - pointer.x, handle.y - pointer.y);
+      if (dist !== undefined && dist < closest) {
+        closest = dist;
+        picked = idx;
+      }
+    });
+    if (picked !== undefined) {
+      event.currentTarget.setPointerCapture(event.pointerId);
+      setDragging(picked);
+    }
+  }
+
+  function onPointerMove(event: PointerEvent<HTMLCanvasElement>) {
+    if (dragging === undefined) {
+      return;
+    }
+    const { x, y } = pointerAt(event);
+    const range = Math.round(clamp(Math.hypot(x, y), 10, 500));
+    const angle = Math.atan2(y, x);
+    update(dragging, (config) => {
+      switch (config.kind) {
+        case "heading":
+          return config;
+        case "curvature":
+          return { ...config, range };
+        case "lidar":
+          return { ...config, range, arc: Math.abs(angle) * 2 };
+        default:
+          return { ...config, range, angle };
+      }
+    });
+  }
+
+  function update(idx: number, fn: (config: SensorConfig) => SensorConfig) {
+    setDrafts((drafts) =>
+      drafts.map((draft, i) =>
+        i === idx ? { ...draft, config: fn(draft.config) } : draft,
+      ),
+    );
+  }
+
+  // Changing the kind or the number of rays makes it a new input
+  function replace(idx: number, config: SensorConfig) {
+    setDrafts((drafts) =>
+      drafts.map((draft, i) => (i === idx ? { config } : draft)),
+    );
+  }
+
+  async function apply() {
+    settings.set({
+      sensors: drafts.map(({ config }) => config),
+      ...(resizeNet && remapped
+        ? {
+            sotaNet: {
+              ...new Network(settings.sotaNet).remapInputs(sources).config,
+              sensorInputs: inputs,
+            },
+          }
+        : {}),
+    });
+    await Sensor.reload();
+
+    // Runs started with the old sensors can't go on with the new ones
+    const track = Track.registry.get()[settings.currentTrack];
+    if (track) {
+      await Car.restartGeneration(track);
+    }
+  }
+
+  return (
+    <>
+      <IonRow>
+        <IonCol size="12" className="ion-text-center">
+          <canvas
+            ref={canvasRef}
+            width={`${PREVIEW_SIZE}px`}
+            height={`${PREVIEW_SIZE}px`}
+            style={{ maxWidth: "100%", touchAction: "none" }}
+            onPointerDown={onPointerDown}
+            onPointerMove={onPointerMove}
+            onPointerUp={() => setDragging(undefined)}
+            onPointerCancel={() => setDragging(undefined)}
+          ></canvas>
+        </IonCol>
+      </IonRow>
+      {drafts.map(({ config }, idx) => (
+        <IonRow key={idx} class="ion-align-items-center">
+          <IonCol size="3">
+            <IonSelect
+              label={`#${idx + 1}`}
+              interface="popover"
+              value={config.kind ?? "ray"}
+              onIonChange={(e) =>
+                replace(idx, withKind(config, e.detail.value as Kind))
+              }
+            >
+              {Object.entries(KINDS).map(([kind, label]) => (
+                <IonSelectOption value={kind} key={kind}>
+                  {label}
+                </IonSelectOption>
+              ))}
+            </IonSelect>
+          </IonCol>
+          {"range" in config && (
+            <IonCol size="2">
+              <IonInput
+                label="Range"
+                type="number"
+                value={config.range}
+                onIonChange={(e) => {
+                  const value = parseFloat(e.detail.value ?? "");
+                  if (isFinite(value) && value > 0) {
+                    update(idx, (config) => ({ ...config, range: value }));
+                  }
+                }}
+              ></IonInput>
+            </IonCol>
+          )}
+          {"angle" in config && (
+            <IonCol size="2">
+              <IonInput
+                label="Angle°"
+                type="number"
+                value={Math.round((config.angle * 180) / Math.PI)}
+                onIonChange={(e) => {
+                  const value = parseFloat(e.detail.value ?? "");
+                  if (isFinite(value)) {
+                    update(idx, (config) => ({
+                      ...config,
+                      angle: (value * Math.PI) / 180,
+                    }));
+                  }
+                }}
+              ></IonInput>
+            </IonCol>
+          )}
+          {config.kind === "cone" && (
+            <IonCol size="2">
+              <IonInput
+                label="Spread°"
+                type="number"
+                value={Math.round((config.spread * 180) / Math.PI)}
+                onIonChange={(e) => {
+                  const value = parseFloat(e.detail.value ?? "");
+                  if (isFinite(value) && value > 0) {
+                    update(idx, (config) => ({
+                      ...config,
+                      spread: (value * Math.PI) / 180,
+                    }));
+                  }
+                }}
+              ></IonInput>
+            </IonCol>
+          )}
+          {config.kind === "lidar" && (
+            <>
+              <IonCol size="2">
+                <IonInput
+                  label="Arc°"
+                  type="number"
+                  value={Math.round((config.arc * 180) / Math.PI)}
+                  onIonChange={(e) => {
+                    const value = parseFloat(e.detail.value ?? "");
+                    if (isFinite(value) && value >= 0) {
+                      update(idx, (config) => ({
+                        ...config,
+                        arc: (value * Math.PI) / 180,
+                      }));
+                    }
+                  }}
+                ></IonInput>
+              </IonCol>
+              <IonCol size="2">
+                <IonInput
+                  label="Rays"
+                  type="number"
+                  value={config.rays}
+                  onIonChange={(e) => {
+                    const value = parseInt(e.detail.value ?? "");
+                    if (isFinite(value) && value > 0) {
+                      replace(idx, { ...config, rays: value });
+                    }
+                  }}
+                ></IonInput>
+              </IonCol>
+            </>
+          )}
+          <IonCol class="ion-text-right">
+            <IonButton
+              size="small"
+              color="danger"
+              title="Remove this sensor"
+              onClick={() =>
+                setDrafts((drafts) => drafts.filter((_, i) => i !== idx))
+              }
+            >
+              Remove
+            </IonButton>
+          </IonCol>
+        </IonRow>
+      ))}
+      <IonRow>
+        <IonCol size="4">
+          <IonButton
+            expand="block"
+            onClick={() =>
+              setDrafts((drafts) => [
+                ...drafts,
+                { config: { kind: "ray", range: 100, angle: 0 } },
+              ])
+            }
+          >
+            Add Sensor
+          </IonButton>
+        </IonCol>
+        <IonCol size="4">
+          <IonButton
+            expand="block"
+            disabled={!canUseEvolved}
+            title="Start from the layout evolved with the best network"
+            onClick={() =>
+              setDrafts(
+                evolved.map((config, idx) => ({
+                  config,
+                  source: idx,
+                })),
+              )
+            }
+          >
+            Use Evolved
+          </IonButton>
+        </IonCol>
+        <IonCol size="4">
+          <IonButton
+            expand="block"
+            disabled={!changed}
+            onClick={() => setDrafts(fromSettings())}
+          >
+            Revert
+          </IonButton>
+        </IonCol>
+      </IonRow>
+      {remapped && (
+        <IonRow>
+          <IonCol size="12">
+            <IonCheckbox
+              justify="end"
+              checked={resizeNet}
+              onIonChange={(e) => setResizeNet(e.detail.checked)}
+            >
+              Resize the best network from {settings.sensorInputs()} to {inputs}{" "}
+              sensor inputs, keeping what it learned for the sensors that stay
+            </IonCheckbox>
+          </IonCol>
+        </IonRow>
+      )}
+      <IonRow>
+        <IonCol size="12">
+          <IonItem lines="none">
+            <IonLabel>
+              {drafts.length} sensors, {inputs} network inputs
+            </IonLabel>
+            <IonButton
+              slot="end"
+              disabled={!changed || drafts.length === 0}
+              onClick={apply}
+            >
+              Apply
+            </IonButton>
+          </IonItem>
+        </IonCol>
+      </IonRow>
+    </>
+  );
+}
+
+const PREVIEW_SIZE = 300; // px
+
+function fromSettings(): Draft[] {
+  return Settings.singleton.sensors.map((config, idx) => ({
+    config,
+    source: idx,
+  }));
+}
+
+// Point of the sensor that can be dragged around, relative to the car
+function handleOf(config: SensorConfig) {
+  switch (config.kind) {
+    case "heading":
+      return undefined;
+    case "curvature":
+      return { x: config.range, y: 0 };
+    case "lidar":
+      return {
+        x: config.range * Math.cos(config.arc / 2),
+        y: config.range * Math.sin(config.arc / 2),
+      };
+    default:
+      return {
+        x: config.range * Math.cos(config.angle),
+        y: config.range * Math.sin(config.angle),
+      };
+  }
+}
+
+// Keeps the range and angle of the sensor when switching its kind
+function withKind(config: SensorConfig, kind: Kind): SensorConfig {
+  const range = "range" in config ? config.range : 100;
+  const angle = "angle" in config ? config.angle : 0;
+  // The readings stay as degraded as they were
+  const { noise, quantization, attenuation, dropout } = config;
+  const response = { noise, quantization, attenuation, dropout };
+  switch (kind) {
+    case "ray":
+      return { ...response, kind, range, angle };
+    case "cone":
+      return { ...response, kind, range, angle, spread: Math.PI / 6 };
+    case "lidar":
+      return { ...response, kind, range, arc: (Math.PI * 2) / 3, rays: 16 };
+    case "curvature":
+      return { ...response, kind, range };
+    case "surface":
+      return { ...response, kind, range: 30, angle };
+    case "heading":
+      return { ...response, kind };
+  }
+}
+
+// Old network input feeding each of the new inputs, if any. The inputs after
+// the sensors keep their order
+function inputSources(drafts: Draft[], settings: Settings) {
+  const before = settings.sensors.map((config) => Sensor.create(config));
+  const offsets = before.map((_, idx) =>
+    before.slice(0, idx).reduce((count, sensor) => count + sensor.inputs, 0),
+  );
+  const sources: (number | undefined)[] = [];
+  drafts.forEach(({ config, source }) => {
+    const count = Sensor.create(config).inputs;
+    for (let i = 0; i < count; i++) {
+      sources.push(source === undefined ? undefined : offsets[source] + i);
+    }
+  });
+
+  const sensorInputs = settings.sensorInputs();
+  const net = settings.sotaNet;
+  for (let idx = sensorInputs; idx < net.input; idx++) {
+    sources.push(idx);
+  }
+  return sources;
+}
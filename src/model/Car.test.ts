@@ -0,0 +1,233 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+import headless from "../utils/headless";
+import Car from "./Car";
+import Network from "./Network";
+import Sensor from "./Sensor";
+import Settings from "./Settings";
+import Track from "./Track";
+
+// Network whose weights tell which input they were first trained for
+function labelledNet(input: number): Network {
+  const net = Network.init(input, 2, []);
+  net.config.weights[0].forEach((neuron) =>
+    neuron.forEach((_, idx) => (neuron[idx] = (idx + 1) / 100)),
+  );
+  return net;
+}
+
+describe("Car.adaptNet", () => {
+  beforeEach(() => {
+    Settings.reset();
+  });
+
+  it("keeps the controls in place when sensors are added", () => {
+    const net = labelledNet(5 + 4);
+    Settings.singleton.set({
+      sensors: [...Settings.singleton.sensors, { kind: "heading" }],
+    });
+    const adapted = Car.adaptNet(net);
+    expect(adapted.config.input).toBe(6 + 4);
+    expect(adapted.config.weights[0][0]).toEqual([
+      0.01, 0.02, 0.03, 0.04, 0.05, 0, 0.06, 0.07, 0.08, 0.09, 0.1,
+    ]);
+  });
+
+  it("keeps the controls in place when sensors are removed", () => {
+    const net = labelledNet(5 + 4);
+    Settings.singleton.set({ sensors: Settings.singleton.sensors.slice(0, 3) });
+    const adapted = Car.adaptNet(net);
+    expect(adapted.config.weights[0][0]).toEqual([
+      0.01, 0.02, 0.03, 0.06, 0.07, 0.08, 0.09, 0.1,
+    ]);
+  });
+
+  it("adds and drops the nearest car input after the sensors", () => {
+    Settings.singleton.set({ nearestCarInput: true });
+    const added = Car.adaptNet(labelledNet(5 + 4));
+    expect(added.config.weights[0][0]).toEqual([
+      0.01, 0.02, 0.03, 0.04, 0.05, 0, 0.06, 0.07, 0.08, 0.09, 0.1,
+    ]);
+
+    Settings.singleton.set({ nearestCarInput: false });
+    const dropped = Car.adaptNet(added);
+    expect(dropped.config.weights[0][0]).toEqual([
+      0.01, 0.02, 0.03, 0.04, 0.05, 0.06, 0.07, 0.08, 0.09, 0.1,
+    ]);
+  });
+
+  it("remaps from the inputs the net was trained with", () => {
+    // Trained with 5 sensors, now 4 of them and the nearest car, which has
+    // the same number of inputs
+    const net = new Network({
+      ...labelledNet(5 + 4).config,
+      sensorInputs: 5,
+      nearestCarInput: false,
+    });
+    Settings.singleton.set({
+      sensors: Settings.singleton.sensors.slice(0, 4),
+      nearestCarInput: true,
+    });
+    const adapted = Car.adaptNet(net);
+    expect(adapted.config.weights[0][0]).toEqual([
+      0.01, 0.02, 0.03, 0.04, 0, 0.06, 0.07, 0.08, 0.09, 0.1,
+    ]);
+    expect(adapted.config.sensorInputs).toBe(4);
+    expect(adapted.config.nearestCarInput).toBe(true);
+    expect(Car.adaptNet(adapted)).toBe(adapted);
+  });
+});
+
+describe("Car on a track", () => {
+  let track: Track;
+
+  beforeAll(async () => {
+    headless.forced = true;
+    Settings.reset();
+    await Promise.all([Track.loadAll(), Sensor.loadAll()]);
+    track = Track.registry.get()["Basic"];
+  });
+
+  beforeEach(() => {
+    const cars = Car.registry.get();
+    Object.keys(cars).forEach((name) => delete cars[name]);
+  });
+
+  // Car with no network keeps the controls it's given
+  function placeCar() {
+    const car = new Car("Test", "#ffffff");
+    car.placeOnTrack(track);
+    return car;
+  }
+
+  it("starts on the road", () => {
+    const car = placeCar();
+    expect(car.checkCollision()).toBe(false);
+    expect(car.collided).toBe(false);
+  });
+
+  it("collides with the edges of the track mask", () => {
+    const car = placeCar();
+    car.position = { x: 2, y: 2 };
+    expect(car.checkCollision()).toBe(true);
+  });
+
+  it("starts timing when crossing the lap line", () => {
+    const car = placeCar();
+    car.acceleration = 1;
+    for (let i = 0; i < 100 && !car.startTime; i++) {
+      car.tick(0.05);
+    }
+    expect(car.startTime).toBeGreaterThan(0);
+    expect(car.laps).toBe(0);
+    expect(car.collided).toBe(false);
+  });
+
+  it("crashes when crossing the lap line the wrong way", () => {
+    const car = placeCar();
+    car.position = { ...track.startingPoint };
+    car.angle = track.startingAngle + Math.PI;
+    expect(car.checkCollision()).toBe(true);
+  });
+
+  it("loses as much speed to steering with drift physics as in arcade", () => {
+    const speedAfterTurning = (physicsModel: "arcade" | "drift") => {
+      Settings.reset({ physicsModel });
+      const car = placeCar();
+      car.speed = 50;
+      car.velocity = {
+        x: Math.cos(car.angle) * 50,
+        y: Math.sin(car.angle) * 50,
+      };
+      car.steering = 1;
+      car.tick(0.05);
+      return car.speed;
+    };
+    try {
+      expect(speedAfterTurning("drift")).toBeLessThanOrEqual(
+        speedAfterTurning("arcade"),
+      );
+    } finally {
+      Settings.reset();
+    }
+  });
+
+  it("reads the distance to the edges of the road", () => {
+    const car = placeCar();
+    car.checkSensors(0.05);
+    const readings = car.sensorReadings;
+    expect(readings).toHaveLength(Settings.singleton.sensorInputs());
+    readings.forEach((reading) => {
+      expect(reading).toBeGreaterThan(0);
+      expect(reading).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it("carries on from its state in another instance", () => {
+    const car = placeCar();
+    car.acceleration = 1;
+    for (let i = 0; i < 75; i++) {
+      car.tick(0.05);
+    }
+    const sensors = Settings.singleton.sensorInputs();
+    const state = new Float64Array(Car.stateSize + sensors);
+    car.writeState(state, 0);
+
+    const copy = new Car("Copy", "#ffffff");
+    copy.placeOnTrack(track);
+    copy.readState(state, 0, sensors);
+    for (let i = 0; i < 40; i++) {
+      car.tick(0.05);
+      copy.tick(0.05);
+    }
+    const [expected, actual] = [car, copy].map((c) => {
+      const buffer = new Float64Array(Car.stateSize + sensors);
+      c.writeState(buffer, 0);
+      return buffer;
+    });
+    expect(actual).toEqual(expected);
+  });
+
+  it("runs generations back to back in turbo mode, saving once", async () => {
+    Settings.reset({ currentTrack: "Basic" });
+    Car.turboStats.since = 0;
+    const save = vi.spyOn(Settings, "save").mockResolvedValue(undefined);
+    headless.forced = false;
+    try {
+      Car.tickTurbo(300, 0.05);
+      expect(headless.forced).toBe(false);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(save).toHaveBeenCalledTimes(1);
+    } finally {
+      headless.forced = true;
+      save.mockRestore();
+    }
+    expect(Car.turboStats.iterations).toBeGreaterThan(1);
+    // The first generation only started, with no cars on the track before
+    expect(Settings.singleton.numIterations).toBe(
+      Car.turboStats.iterations + 1,
+    );
+  });
+
+  it("runs the same generation again from the same seed", async () => {
+    const run = async () => {
+      Settings.reset({ randomSeed: 1234 });
+      await Car.nextGeneration(track, true);
+      for (let i = 0; i < 200; i++) {
+        Car.tickAll(1 / 30);
+      }
+      return Object.values(Car.registry.get()).map((car) => [
+        car.name,
+        car.position.x,
+        car.position.y,
+        car.odometer,
+      ]);
+    };
+
+    const first = await run();
+    Object.keys(Car.registry.get()).forEach(
+      (name) => delete Car.registry.get()[name],
+    );
+    expect(await run()).toEqual(first);
+  });
+});
@@ -1,28 +1,40 @@
 import clamp from "../utils/clamp";
 import composeImage, { ComposedImage } from "../utils/composeImage";
 import { stringify } from "../utils/encoding";
+import { isInPolygon, outline, Point } from "../utils/geometry";
+import headless from "../utils/headless";
+import random, { RandomStream } from "../utils/random";
+import { RasterMask } from "../utils/rasterMask";
 import genRegistry from "../utils/registry";
 import shortcut from "../utils/shortcut";
+import Fitness, { FitnessComponents } from "./Fitness";
 import Network from "./Network";
 import Sensor from "./Sensor";
-import Settings from "./Settings";
+import Settings, { SensorConfig, Surface, VehicleProfile } from "./Settings";
 import Track from "./Track";
+import TrafficDriver from "./TrafficDriver";
+import WorkerPool from "./WorkerPool";
 
 export default class Car {
   static registry = genRegistry<Record<string, Car>>({});
   static events: string[] = [];
+  static turboStats = { since: 0, iterations: 0, bestScore: 0 };
+  static recordHighscores = true;
+  static traffic: RasterMask | undefined = undefined; // Track mask with the cars on it
 
   private renderImage: ComposedImage | undefined = undefined;
-  private sensorImage: ComposedImage | undefined = undefined;
 
-  readonly width = Settings.singleton.carWidth;
-  readonly height = Settings.singleton.carHeight;
+  // Dimensions and performance of the car
+  readonly vehicle: VehicleProfile;
 
   // Position and Motion
   public track: Track | null = null;
   public position = { x: 0, y: 0 };
+  private previousPosition = { x: 0, y: 0 };
   public angle = 0; // radians. 0 = right, pi/2 = down
-  public speed = 0; // px/s
+  public speed = 0; // px/s, along the heading. Negative when reversing
+  public velocity = { x: 0, y: 0 }; // px/s, can differ from heading when sliding
+  public surface: Surface = "road"; // Under the center of the car
   public steering = 0; // -1 to +1
   public acceleration = 0; // -1 to +1
 
@@ -31,21 +43,37 @@ export default class Car {
   public laps = 0;
   private inCrossing = false;
   private crossingDistance = 0;
-  private totalTicks = 0;
-  public startTime = 0;
-  public endTime = 0;
+  private reversedCrossings = 0; // Times backed over the starting line
+  public clock = 0; // s, simulated time since placed on track
+  public startTime = 0; // s, on the simulated clock
+  public endTime = 0; // s, on the simulated clock
   public collided = false;
-  private pastTracking: { x: number; y: number }[] = [];
+  public steeringEffort = 0; // Steering changes from the network, times the tick length
+
+  // Progress through the track checkpoints
+  public lapProgress = 0; // 0-1, fraction of the current lap completed
+  public forwardDistance = 0; // px, only counting progress along the track
+  private checkpoint = 0; // Index of the last checkpoint reached
+  private checkpointsPassed = 0; // Since the last lap
+  private checkpointTime = 0; // s, when the last checkpoint was reached
+  private backedCheckpoints = 0; // Reversed past, to be driven past again
 
   // Sensors
-  private sensorsReady = true;
-  public sensorReadingTime = 0;
+  public layout: Sensor[] | null = null; // Own sensors, when they evolve with the net
   public sensorReadings: number[] = [];
+  public nearestCar = 1; // 0-1, distance to the closest car within range
+  public noise: RandomStream = random.stream(random.newSeed()); // Of the sensor readings
   public visualizeSensors = false;
 
   // Network evaluation
   public net: Network | null = null;
 
+  // Scripted controller of the traffic cars
+  public driver: TrafficDriver | null = null;
+
+  // Simulated on a worker thread, this instance only mirrors its state
+  public remote = false;
+
   constructor(
     public readonly name: string,
     public color = "",
@@ -53,18 +81,29 @@ export default class Car {
     autoRegister = true,
   ) {
     if (!color) {
-      const rgb = [32, 64, 128].map((c) =>
-        clamp(~~(Math.random() * c * 2), 0, 255),
-      );
+      const rgb = [32, 64, 128].map((c) => clamp(~~(random() * c * 2), 0, 255));
       this.color =
         "#" + rgb.map((c) => c.toString(16).padStart(2, "0")).join("");
     }
 
+    const settings = Settings.singleton;
+    this.vehicle = settings.vehicleProfile(
+      name === "Manual" ? settings.manualVehicle : settings.populationVehicle,
+    );
+
     if (name && autoRegister) {
       Car.registry.get()[name] = this;
     }
   }
 
+  get width(): number {
+    return this.vehicle.width;
+  }
+
+  get height(): number {
+    return this.vehicle.height;
+  }
+
   static useHook() {
     const cars = Car.registry.useHook();
     return Object.values(cars);
@@ -103,7 +142,7 @@ export default class Car {
         height="${this.height}"
         rx="${this.width / 4}"
         ry="${this.height / 4}"
-        fill="${this.laps >= 3 ? "green" : this.collided ? "red" : this.color}"
+        fill="${this.finished ? "green" : this.collided ? "red" : this.color}"
       />`,
       // Wheels
       [
@@ -132,7 +171,14 @@ export default class Car {
     return this.renderImage?.canvas;
   }
 
+  get sensors(): Sensor[] {
+    return this.layout ?? Sensor.registry.get();
+  }
+
   async fetchImageData() {
+    if (headless()) {
+      return this.renderImage;
+    }
     this.renderImage = await composeImage([], {
       reuse: this.renderImage,
       clear: true,
@@ -143,23 +189,69 @@ export default class Car {
     return this.renderImage;
   }
 
-  get score(): Score {
-    const now = Date.now();
-    const distance = this.odometer / Math.max(this.width, this.height);
-    const time = ((this.endTime || now) - (this.startTime || now)) / 1000;
+  // Corners of the car body in track coordinates
+  get footprint(): Point[] {
+    const cos = Math.cos(this.angle);
+    const sin = Math.sin(this.angle);
+    return [
+      [-1, -1],
+      [1, -1],
+      [1, 1],
+      [-1, 1],
+    ].map(([sx, sy]) => {
+      const dx = (sx * this.width) / 2;
+      const dy = (sy * this.height) / 2;
+      return {
+        x: this.position.x + dx * cos - dy * sin,
+        y: this.position.y + dx * sin + dy * cos,
+      };
+    });
+  }
+
+  // Vehicle performance on the surface under the car
+  get handling(): VehicleProfile {
+    if (this.surface === "road") {
+      return this.vehicle;
+    }
+    const surface = Settings.singleton.surfaces[this.surface];
     return {
-      distance,
-      time,
+      ...this.vehicle,
+      maxSpeed: this.vehicle.maxSpeed * surface.maxSpeed,
+      friction: this.vehicle.friction * surface.friction,
+      tireGrip: this.vehicle.tireGrip * surface.grip,
+    };
+  }
+
+  // Completed enough laps to win the race
+  get finished(): boolean {
+    return this.laps >= Settings.singleton.raceRules.lapsToWin;
+  }
+
+  get scoreComponents(): FitnessComponents {
+    const now = this.clock;
+    return {
+      distance: this.forwardDistance / Math.max(this.width, this.height),
+      time: (this.endTime || now) - (this.startTime || now),
       laps: this.laps,
-      success: !this.collided && this.laps >= 3 && this.startTime > 0,
-      score:
-        this.startTime > 0
-          ? Math.max(0, distance - time) + (this.laps + 1) ** 2 * 10
-          : 0,
+      progress: this.laps + this.lapProgress,
+      steering: this.steeringEffort,
     };
   }
 
-  placeOnTrack(track: Track) {
+  get score(): Score {
+    const components = this.scoreComponents;
+    const fitness = Fitness.current;
+    return {
+      ...components,
+      success: this.finished && this.startTime > 0,
+      score: this.startTime > 0 ? fitness.evaluate(components) : 0,
+      fitness: fitness.name,
+      vehicle: this.vehicle.name,
+    };
+  }
+
+  // Race mode lines the cars up in slots on a grid, so they don't overlap
+  placeOnTrack(track: Track, slot?: number) {
     this.track = track;
 
     // Reset position and angle to start of track
@@ -167,6 +259,8 @@ export default class Car {
     this.position.y = track.startingPoint.y;
     this.angle = track.startingAngle;
     this.speed = 0;
+    this.velocity = { x: 0, y: 0 };
+    this.surface = "road";
     this.steering = 0;
     this.acceleration = 0;
 
@@ -175,41 +269,83 @@ export default class Car {
     this.position.y -= (track.startingDirection.y * this.height) / 2;
 
     // Start on slightly different spots on the starting line
-    const fudge = this.net
-      ? Math.random() * track.roadThickness - track.roadThickness / 2
-      : 0;
+    const fudge =
+      this.net && slot === undefined
+        ? random() * track.roadThickness - track.roadThickness / 2
+        : 0;
     this.position.x += fudge * this.fudgeFactor * track.startingDirection.y;
     this.position.y -= fudge * this.fudgeFactor * track.startingDirection.x;
+    if (slot !== undefined) {
+      const { across, behind } = Car.gridOffset(track, slot);
+      this.position.x += across * track.startingDirection.y;
+      this.position.y -= across * track.startingDirection.x;
+      this.position.x -= behind * track.startingDirection.x;
+      this.position.y -= behind * track.startingDirection.y;
+    }
+    this.previousPosition = { ...this.position };
 
     // Reset scoring state
     this.odometer = 0;
     this.laps = 0;
     this.inCrossing = false;
     this.crossingDistance = 0;
+    this.reversedCrossings = 0;
+    this.clock = 0;
     this.startTime = 0;
     this.endTime = 0;
     this.collided = false;
+    this.nearestCar = 1;
     this.fetchImageData();
 
-    // Prevent from going backwards
-    const trackingRadius =
-      Math.max(this.width, this.height, this.track.roadThickness) + 1;
-    this.pastTracking = [
-      {
-        x: track.startingPoint.x - track.startingDirection.x * trackingRadius,
-        y: track.startingPoint.y - track.startingDirection.y * trackingRadius,
-      },
-    ];
+    // Start right behind the first checkpoint
+    this.lapProgress = 0;
+    this.steeringEffort = 0;
+    this.forwardDistance = 0;
+    this.checkpoint = 0;
+    this.checkpointsPassed = 0;
+    this.checkpointTime = 0;
+    this.backedCheckpoints = 0;
+
+    // Cars further back on the grid have checkpoints to go through before
+    // reaching the first one
+    const checkpoints = track.checkpoints;
+    const count = checkpoints.length;
+    const dist = (p: Point) =>
+      Math.hypot(p.x - this.position.x, p.y - this.position.y);
+    while (
+      count >= 3 &&
+      this.checkpointsPassed > 1 - count &&
+      dist(checkpoints[(this.checkpoint + count - 1) % count]) <
+        dist(checkpoints[this.checkpoint])
+    ) {
+      this.checkpoint = (this.checkpoint + count - 1) % count;
+      this.checkpointsPassed--;
+    }
+  }
 
-    // Reset collision status
-    this.sensorsReady = true;
-    this.sensorReadingTime = Date.now();
+  // Distance of the grid slot across the track, and behind the starting
+  // line. Slots are sized for the largest of the vehicles in the race
+  static gridOffset(track: Track, slot: number) {
+    const settings = Settings.singleton;
+    const vehicles = [settings.populationVehicle, settings.manualVehicle].map(
+      (name) => settings.vehicleProfile(name),
+    );
+    const length = Math.max(...vehicles.map(({ width }) => width)) * 1.25;
+    const span = Math.max(...vehicles.map(({ height }) => height)) * 1.25;
+    const lanes = Math.max(1, Math.floor((track.roadThickness * 0.9) / span));
+    return {
+      across: ((slot % lanes) - (lanes - 1) / 2) * span,
+      behind: Math.floor(slot / lanes) * length,
+    };
   }
 
   endRun(collided = true) {
     const settings = Settings.singleton;
 
-    this.endTime = Date.now();
+    // Keep the original end time if the run had already ended
+    if (!this.collided || !this.endTime) {
+      this.endTime = this.clock;
+    }
     if (!this.startTime) {
       this.startTime = this.endTime;
     }
@@ -218,23 +354,35 @@ export default class Car {
     this.collided = collided;
     this.fetchImageData();
 
-    if (!this.track || !this.net || this.score.score <= 0) {
+    if (
+      !Car.recordHighscores ||
+      !this.track ||
+      !this.net ||
+      this.score.score <= 0
+    ) {
       return;
     }
 
-    // New SOTA!
+    // New SOTA! Only scores from the same fitness function and vehicle are
+    // comparable
+    const score = this.score;
+    const comparable = (s?: Score) =>
+      s &&
+      Fitness.of(s.fitness).name === score.fitness &&
+      (s.vehicle ?? "standard") === score.vehicle
+        ? s.score
+        : 0;
     const highScore = Math.max(
-      ...Object.values(settings.sotaScore).map((s) => (s ? s.score : 0)),
+      ...Object.values(settings.sotaScore).map(comparable),
     );
-    if (this.score.score > (highScore ?? 0)) {
+    if (score.score > (highScore ?? 0)) {
       settings.sotaNet = this.net.config;
-      settings.sotaScore[this.track.name] = this.score;
+      settings.sotaSensors = this.layout?.map((sensor) => sensor.config) ?? [];
+      settings.sotaScore[this.track.name] = score;
       Car.log(this.name, "all-time highscore");
-    } else if (
-      this.score.score > (settings.sotaScore[this.track.name]?.score ?? 0)
-    ) {
+    } else if (score.score > comparable(settings.sotaScore[this.track.name])) {
       Car.log(this.name, "highscore on track");
-      settings.sotaScore[this.track.name] = this.score;
+      settings.sotaScore[this.track.name] = score;
     }
   }
 
@@ -253,11 +401,10 @@ export default class Car {
     context.rotate(this.angle);
 
     if (visualizeSensors || this.visualizeSensors || this.name === "Manual") {
-      Sensor.registry
-        .get()
-        .forEach((sensor, idx) =>
-          sensor.render(context, this.sensorReadings[idx]),
-        );
+      const readings = Sensor.split(this.sensorReadings, this.sensors);
+      this.sensors.forEach((sensor, idx) =>
+        sensor.render(context, readings[idx]),
+      );
     }
 
     context.drawImage(this.canvas, ~~(-this.width / 2), ~~(-this.height / 2));
@@ -283,61 +430,58 @@ export default class Car {
   }
 
   tick(dt: number) {
+    if (!this.track || this.remote) {
+      return;
+    }
+
+    // Simulated time keeps running after the run ends, to pace the next one
+    this.clock += dt;
+
     // Don't move if collided
-    if (this.collided || !this.track) {
+    if (this.collided) {
       return;
     }
 
     if (this.name === "Manual") {
       this.manualControl();
     } else {
-      const score = this.score;
+      // Progress is judged the same way whatever the fitness function
+      const rules = Settings.singleton.raceRules;
+      const score = this.scoreComponents;
+      const progress = this.startTime > 0 ? Fitness.default.evaluate(score) : 0;
+      // Traffic drives at its own pace
+      const pruning = !this.driver && this.clock > rules.gracePeriodSecs;
       // Lost cause
-      if (score.score < -10 || (this.totalTicks > 3 && score.score <= 0)) {
+      if (pruning && progress <= 0) {
         Car.log(this.name, "not going anywhere");
         return this.endRun();
-      } else if (this.totalTicks > 3 && score.score <= score.time / 2) {
+      } else if (pruning && progress <= score.time * rules.minProgressRate) {
         Car.log(this.name, "going too slow");
         return this.endRun();
+      } else if (rules.maxRunSecs > 0 && this.clock >= rules.maxRunSecs) {
+        Car.log(this.name, "out of time");
+        return this.endRun();
       }
       // Successful run
-      if (score.laps >= 3) {
+      if (this.finished) {
         return this.endRun();
       }
     }
 
-    const settings = Settings.singleton;
-    this.totalTicks += dt;
-
-    // Steering
-    this.steering = clamp(this.steering, -1, 1);
-    this.steering = clamp(this.steering, -this.speed, this.speed);
-    if (Math.abs(this.steering) >= 0.01) {
-      this.angle += settings.maxSteering * this.steering * dt;
-      this.steering -= settings.friction * Math.sign(this.steering) * dt;
-      this.speed -= settings.friction * this.speed * dt;
-    }
-    if (this.angle > Math.PI) {
-      this.angle -= Math.PI * 2;
-    } else if (this.angle < -Math.PI) {
-      this.angle += Math.PI * 2;
-    }
-
-    // Acceleration and breaking
-    this.acceleration = clamp(this.acceleration, -1, 1);
-    if (Math.abs(this.acceleration) >= 0.01) {
-      this.speed += settings.maxAcceleration * this.acceleration * dt;
-      this.acceleration -=
-        settings.friction * Math.sign(this.acceleration) * dt;
+    // The surface under the car changes how it handles
+    this.surface =
+      this.track.surfaceAt(this.position.x, this.position.y) ?? "road";
+    if (Settings.singleton.physicsModel === "drift") {
+      this.driftPhysics(dt);
     } else {
-      this.speed -= settings.friction * this.speed * dt;
+      this.arcadePhysics(dt);
     }
-    this.speed = clamp(this.speed, 0, settings.maxSpeed);
 
     // Movement
-    this.position.x += Math.cos(this.angle) * this.speed * dt;
-    this.position.y += Math.sin(this.angle) * this.speed * dt;
-    this.odometer += this.speed * dt;
+    this.previousPosition = { ...this.position };
+    this.position.x += this.velocity.x * dt;
+    this.position.y += this.velocity.y * dt;
+    this.odometer += Math.hypot(this.velocity.x, this.velocity.y) * dt;
     if (
       this.position.x <= 0 ||
       this.position.x >= this.track.width ||
@@ -349,31 +493,186 @@ export default class Car {
     }
 
     // Tracking
-    const trackingRadius = Math.max(
-      this.width,
-      this.height,
-      this.track.roadThickness,
+    if (this.checkProgress()) {
+      return this.endRun();
+    }
+
+    // Collision
+    this.checkSensors(dt);
+  }
+
+  // The car always moves exactly where it is pointing
+  private arcadePhysics(dt: number) {
+    const vehicle = this.handling;
+
+    // Steering
+    this.steer(dt);
+
+    // Acceleration and breaking
+    const previous = this.speed;
+    this.acceleration = clamp(this.acceleration, -1, 1);
+    if (Math.abs(this.acceleration) >= 0.01) {
+      this.speed += vehicle.maxAcceleration * this.acceleration * dt;
+      this.acceleration -= vehicle.friction * Math.sign(this.acceleration) * dt;
+    } else {
+      this.speed -= vehicle.friction * this.speed * dt;
+    }
+    this.speed = this.limitSpeed(this.speed, previous);
+
+    this.velocity = {
+      x: Math.cos(this.angle) * this.speed,
+      y: Math.sin(this.angle) * this.speed,
+    };
+  }
+
+  // The heading and the velocity are separate. Tires can only pull the car
+  // towards where it is pointing up to their grip, past that it slides
+  private driftPhysics(dt: number) {
+    const settings = Settings.singleton;
+    const vehicle = this.handling;
+
+    // Steering, turning harder at high speed. It slows the car down the same
+    // as in the arcade physics
+    const speed = this.speed;
+    this.steer(
+      dt,
+      1 + settings.oversteer * (this.speed / vehicle.maxSpeed) ** 2,
     );
-    const dists = this.pastTracking.map((p) =>
-      Math.hypot(p.x - this.position.x, p.y - this.position.y),
+    const scrub = speed !== 0 ? this.speed / speed : 1;
+
+    // Split the velocity along the new heading and sideways
+    const hx = Math.cos(this.angle);
+    const hy = Math.sin(this.angle);
+    let forward = (this.velocity.x * hx + this.velocity.y * hy) * scrub;
+    let lateral = this.velocity.y * hx - this.velocity.x * hy;
+    let grip = vehicle.tireGrip;
+
+    // Acceleration and breaking
+    this.acceleration = clamp(this.acceleration, -1, 1);
+    const previous = forward;
+    if (Math.abs(this.acceleration) >= 0.01) {
+      let push = vehicle.maxAcceleration * this.acceleration;
+      const traction = vehicle.tireGrip * settings.brakingGrip;
+      if (push * forward < 0 && Math.abs(push) > traction) {
+        // Braking harder than the tires allow locks the wheels
+        push = Math.sign(push) * traction;
+        grip *= settings.brakingGrip;
+      }
+      forward += push * dt;
+      this.acceleration -= vehicle.friction * Math.sign(this.acceleration) * dt;
+    } else {
+      forward -= vehicle.friction * forward * dt;
+    }
+    forward = this.limitSpeed(forward, previous);
+
+    // Tires absorb as much of the sideways motion as their grip allows
+    const correction = grip * dt;
+    lateral =
+      Math.abs(lateral) <= correction
+        ? 0
+        : lateral - Math.sign(lateral) * correction;
+
+    this.speed = forward;
+    this.velocity = {
+      x: hx * forward - hy * lateral,
+      y: hy * forward + hx * lateral,
+    };
+  }
+
+  // Braking to a stop doesn't carry over into reversing, that takes another
+  // push once stopped
+  private limitSpeed(speed: number, previous: number): number {
+    const settings = Settings.singleton;
+    if (speed * previous < 0) {
+      return 0;
+    }
+    return clamp(
+      speed,
+      settings.allowReverse ? -settings.maxReverseSpeed : 0,
+      this.handling.maxSpeed,
     );
-    if (dists.length === 0 || dists.every((d) => d > trackingRadius)) {
-      // Record a new position on tracking
-      this.pastTracking.unshift({ x: this.position.x, y: this.position.y });
-      if (this.pastTracking.length > 3) {
-        this.pastTracking.pop();
+  }
+
+  private steer(dt: number, factor = 1) {
+    const vehicle = this.handling;
+    const speed = Math.abs(this.speed);
+    this.steering = clamp(this.steering, -1, 1);
+    this.steering = clamp(this.steering, -speed, speed);
+    if (Math.abs(this.steering) >= 0.01) {
+      // Turns the other way when reversing
+      const direction = this.speed < 0 ? -1 : 1;
+      this.angle +=
+        vehicle.maxSteering * this.steering * direction * factor * dt;
+      this.steering -= vehicle.friction * Math.sign(this.steering) * dt;
+      this.speed -= vehicle.friction * this.speed * dt;
+    }
+    if (this.angle > Math.PI) {
+      this.angle -= Math.PI * 2;
+    } else if (this.angle < -Math.PI) {
+      this.angle += Math.PI * 2;
+    }
+  }
+
+  // Follows the car through the checkpoints of the track. Returns true if the
+  // car went the wrong way or stopped making progress
+  checkProgress(): boolean {
+    const checkpoints = this.track!.checkpoints;
+    const count = checkpoints.length;
+    if (count < 3) {
+      return false;
+    }
+
+    const dist = (p: Point) =>
+      Math.hypot(p.x - this.position.x, p.y - this.position.y);
+    let last = checkpoints[this.checkpoint];
+    let next = checkpoints[(this.checkpoint + 1) % count];
+    const prev = checkpoints[(this.checkpoint + count - 1) % count];
+
+    if (dist(next) < dist(last)) {
+      // Only distance made along the track counts
+      this.forwardDistance += Math.hypot(next.x - last.x, next.y - last.y);
+      this.checkpoint = (this.checkpoint + 1) % count;
+      this.checkpointsPassed++;
+      if (this.backedCheckpoints > 0) {
+        // Making up for reversing doesn't count as new progress
+        this.backedCheckpoints--;
+      } else {
+        this.checkpointTime = this.clock;
       }
+      last = next;
+      next = checkpoints[(this.checkpoint + 1) % count];
+    } else if (dist(prev) < dist(last) && this.speed < 0) {
+      // Reversing is allowed as long as it doesn't stall the car
+      this.forwardDistance -= Math.hypot(last.x - prev.x, last.y - prev.y);
+      this.checkpoint = (this.checkpoint + count - 1) % count;
+      this.checkpointsPassed--;
+      this.backedCheckpoints++;
+      next = last;
+      last = prev;
+    } else if (dist(prev) < dist(last)) {
+      Car.log(this.name, "went back on track");
+      return true;
     } else if (
-      dists.length > 1 &&
-      dists.slice(1).some((d) => d < trackingRadius)
+      this.net &&
+      this.clock - this.checkpointTime >
+        Settings.singleton.checkpointTimeoutSecs
     ) {
-      // Went back on the track
-      Car.log(this.name, "went back on track");
-      return this.endRun();
+      Car.log(this.name, "stalled");
+      return true;
     }
 
-    // Collision
-    this.checkSensors();
+    // Partial progress towards the next checkpoint
+    const segment = (next.x - last.x) ** 2 + (next.y - last.y) ** 2;
+    const along =
+      segment > 0
+        ? clamp(
+            ((this.position.x - last.x) * (next.x - last.x) +
+              (this.position.y - last.y) * (next.y - last.y)) /
+              segment,
+          )
+        : 0;
+    this.lapProgress = clamp((this.checkpointsPassed + along) / count);
+    return false;
   }
 
   async renderSensors() {
@@ -395,7 +694,7 @@ export default class Car {
           composition: "lighter",
           smoothing: false,
         },
-        ...Sensor.registry.get().map((sensor) => ({
+        ...this.sensors.map((sensor) => ({
           src: sensor.mask,
           position: {
             x: this.position.x - sensor.range,
@@ -409,92 +708,76 @@ export default class Car {
     });
   }
 
-  checkSensors() {
+  checkSensors(dt: number) {
     if (!this.track || this.collided) {
       return;
     }
 
-    // Don't read sensors too often if a previous thread is working
-    if (!this.sensorsReady && Date.now() - this.sensorReadingTime < 100) {
-      return;
+    const collision = this.checkCollision() || this.checkTraffic();
+    if (collision) {
+      return this.endRun();
     }
 
-    this.sensorsReady = false;
-    return composeImage([], {
-      width: this.track!.width,
-      height: this.track!.height,
-      reuse: this.sensorImage,
-      clear: true,
-      sources: [
-        {
-          src: this.track!.mask,
-          smoothing: false,
-        },
-        {
-          src: this.mask,
-          position: {
-            x: this.position.x - this.width / 2,
-            y: this.position.y - this.height / 2,
-          },
-          rotate: this.angle * (180 / Math.PI),
-          composition: "lighter",
-          smoothing: false,
-        },
-      ],
-    })
-      .then((image) => {
-        // Cache to avoid garbage collector pileup
-        this.sensorImage = image;
-
-        const collision = this.checkCollision(image);
-        if (collision) {
-          return this.endRun();
-        }
-
-        this.sensorReadings = Sensor.readAll(
-          image,
-          this.position.x,
-          this.position.y,
-          this.angle,
-        );
+    // Other cars show up on the sensors, but not the car itself
+    const settings = Settings.singleton;
+    const traffic = settings.carCollisions ? Car.traffic : undefined;
+    const view = {
+      mask: traffic ?? this.track.raster,
+      track: this.track,
+      x: this.position.x,
+      y: this.position.y,
+      heading: this.angle,
+      clearance: traffic ? Math.hypot(this.width, this.height) / 2 + 1 : 0,
+    };
+    this.sensorReadings = random.using(this.noise, () =>
+      Sensor.readAll(view, this.sensors),
+    );
+    if (settings.nearestCarInput) {
+      this.nearestCar = clamp(
+        Math.min(
+          ...Car.racing(this.track)
+            .filter((car) => car !== this)
+            .map((car) =>
+              Math.hypot(
+                car.position.x - this.position.x,
+                car.position.y - this.position.y,
+              ),
+            ),
+        ) / settings.nearestCarRange,
+        0,
+        1,
+      );
+    }
 
-        // Eval net using sensors
-        if (this.net) {
-          const outputs = this.net.eval([
-            ...this.sensorReadings,
-            this.acceleration,
-            this.steering,
-            this.speed / Settings.singleton.maxSpeed,
-            this.angle / Math.PI,
-          ]);
-          this.acceleration = outputs[0];
-          this.steering = outputs[1];
-        }
-      })
-      .catch((err) => {
-        console.error("Error reading sensors", this.name, err);
-      })
-      .finally(() => {
-        this.sensorsReady = true;
-        this.sensorReadingTime = Date.now();
-      });
+    // Eval net using sensors
+    if (this.net) {
+      const outputs = this.net.eval([
+        ...this.sensorReadings,
+        ...(settings.nearestCarInput ? [this.nearestCar] : []),
+        this.acceleration,
+        this.steering,
+        this.speed / this.vehicle.maxSpeed,
+        this.angle / Math.PI,
+      ]);
+      // Scaled by the tick, so the penalty doesn't depend on the frame rate
+      this.steeringEffort += Math.abs(outputs[1] - this.steering) * dt;
+      this.acceleration = outputs[0];
+      this.steering = outputs[1];
+    } else if (this.driver) {
+      this.driver.drive(this);
+    }
   }
 
-  checkCollision(mask: ComposedImage): boolean {
+  checkCollision(): boolean {
+    if (Settings.singleton.collisionMode === "vector") {
+      return this.checkVectorCollision();
+    }
+
     // Check if the car is crossing any of the road features
-    const radius = ~~Math.max(this.width / 2, this.height / 2) + 1;
-    const buffer = mask.getPixels(
-      this.position.x - radius,
-      this.position.y - radius,
-      radius * 2,
-      radius * 2,
-    ).buffer;
-    const lapping = buffer.some((v) =>
-      Sensor.check(v, Sensor.vehicle, Sensor.lapLine),
-    );
-    const offTrack = buffer.some((v) =>
-      Sensor.check(v, Sensor.vehicle, Sensor.offTrack),
-    );
+    const features = this.track!.raster.bitsInPolygon(this.footprint);
+    const lapping = Sensor.check(features, Sensor.lapLine);
+    const offTrack = Sensor.check(features, Sensor.offTrack);
+    const obstacle = Sensor.check(features, Sensor.obstacle);
 
     // Crossing angle
     const a1 = this.angle;
@@ -506,8 +789,12 @@ export default class Car {
       crossAngle = Math.PI * 2 - crossAngle;
     }
 
-    // Crossing the start/finish line
-    if (
+    // Backing over the start/finish line has to be made up for by driving
+    // over it again, which doesn't count as a lap
+    if (this.checkReversedCrossing()) {
+      this.inCrossing = lapping;
+      this.crossingDistance = this.odometer;
+    } else if (
       lapping &&
       !this.inCrossing &&
       (this.crossingDistance == 0 || this.odometer >= this.crossingDistance + 1)
@@ -521,19 +808,8 @@ export default class Car {
         return true;
       }
 
-      // First crossing starts the timer instead of counting as a lap
-      if (!this.startTime) {
-        this.startTime = Date.now();
-      } else {
-        if (
-          this.odometer <
-          this.width + this.height + this.track!.roadThickness
-        ) {
-          Car.log(this.name, "incomplete lap");
-          return true;
-        }
-        this.laps++;
-        Car.log(this.name, "lap", this.laps, "score", ~~this.score.score);
+      if (this.completeLap()) {
+        return true;
       }
     } else if (
       !lapping &&
@@ -551,7 +827,10 @@ export default class Car {
     }
 
     // Went outside the track
-    if (offTrack) {
+    if (obstacle) {
+      Car.log(this.name, "hit an obstacle");
+      return true;
+    } else if (offTrack) {
       Car.log(this.name, "went off track");
       return true;
     }
@@ -559,6 +838,107 @@ export default class Car {
     return false;
   }
 
+  checkVectorCollision(): boolean {
+    const track = this.track!;
+
+    // Crossing the start/finish line, based on where the car actually moved
+    const crossing = this.checkReversedCrossing()
+      ? 0
+      : track.crossesStartingLine(this.previousPosition, this.position);
+    if (crossing < 0) {
+      Car.log(this.name, "crossed the wrong way");
+      return true;
+    } else if (crossing > 0 && this.completeLap()) {
+      return true;
+    }
+
+    // Went outside the track with any part of the car body
+    const body = outline(this.footprint, 2);
+    if (track.hitsObstacle(body)) {
+      Car.log(this.name, "hit an obstacle");
+      return true;
+    } else if (!track.isOnRoad(body)) {
+      Car.log(this.name, "went off track");
+      return true;
+    }
+
+    return false;
+  }
+
+  // Race mode: running into another car ends the run of both
+  private checkTraffic(): boolean {
+    if (!Settings.singleton.carCollisions) {
+      return false;
+    }
+
+    const footprint = this.footprint;
+    const body = outline(footprint, 2);
+    const reach = Math.hypot(this.width, this.height) / 2;
+    const other = Car.racing(this.track!).find((car) => {
+      if (
+        car === this ||
+        Math.hypot(
+          car.position.x - this.position.x,
+          car.position.y - this.position.y,
+        ) >
+          reach + Math.hypot(car.width, car.height) / 2
+      ) {
+        return false;
+      }
+      const polygon = car.footprint;
+      return (
+        body.some((p) => isInPolygon(p, polygon)) ||
+        outline(polygon, 2).some((p) => isInPolygon(p, footprint))
+      );
+    });
+    if (!other) {
+      return false;
+    }
+
+    Car.log(this.name, "crashed into", other.name);
+    other.endRun();
+    return true;
+  }
+
+  // Keeps count of the times the car reversed over the starting line. Returns
+  // true while those crossings are being made up, so laps aren't counted
+  private checkReversedCrossing(): boolean {
+    if (this.speed >= 0 && this.reversedCrossings === 0) {
+      return false;
+    }
+    this.reversedCrossings -= this.track!.crossesStartingLine(
+      this.previousPosition,
+      this.position,
+    );
+    this.reversedCrossings = Math.max(0, this.reversedCrossings);
+    return true;
+  }
+
+  // Returns true if the lap could not be counted and the run should end
+  private completeLap(): boolean {
+    // First crossing starts the timer instead of counting as a lap
+    if (!this.startTime) {
+      this.startTime = this.clock;
+      this.checkpointsPassed = 0;
+      this.lapProgress = 0;
+    } else {
+      const checkpoints = this.track!.checkpoints.length;
+      if (
+        checkpoints > 0
+          ? this.checkpointsPassed < checkpoints - 1
+          : this.odometer < this.width + this.height + this.track!.roadThickness
+      ) {
+        Car.log(this.name, "incomplete lap");
+        return true;
+      }
+      this.laps++;
+      this.checkpointsPassed = 0;
+      this.lapProgress = 0;
+      Car.log(this.name, "lap", this.laps, "score", ~~this.score.score);
+    }
+    return false;
+  }
+
   manualControl() {
     if (shortcut.some("ArrowDown", "S")) {
       this.acceleration = clamp(this.acceleration - 0.1, -1, -0.1);
@@ -587,31 +967,147 @@ export default class Car {
     cars.forEach((car, idx) => car.render(context, idx === cars.length - 1));
   }
 
+  // Cars still driving on the track, that the others can run into
+  static racing(track: Track): Car[] {
+    return Object.values(Car.registry.get()).filter(
+      (car) => car.track === track && !car.collided && !car.remote,
+    );
+  }
+
+  // Race mode draws the cars on a copy of the track mask for the sensors
+  static updateTraffic(track: Track) {
+    if (!Settings.singleton.carCollisions) {
+      Car.traffic = undefined;
+      return;
+    }
+
+    const raster = track.raster;
+    if (
+      !Car.traffic ||
+      Car.traffic.width !== raster.width ||
+      Car.traffic.height !== raster.height
+    ) {
+      Car.traffic = raster.clone();
+    } else {
+      Car.traffic.buffer.set(raster.buffer);
+    }
+    const traffic = Car.traffic;
+    Car.racing(track).forEach((car) =>
+      traffic.fillPolygon(car.footprint, Sensor.canvasColor.traffic),
+    );
+  }
+
   static tickAll(dt: number) {
     const cars = Object.values(Car.registry.get());
+    const track = Track.registry.get()[Settings.singleton.currentTrack];
+    if (track) {
+      track.tick(dt);
+      Car.updateTraffic(track);
+    }
     cars.forEach((car) => car.tick(dt));
+    WorkerPool.tick(dt);
 
     if (Settings.singleton.autoAdvance && cars[0]?.track) {
-      const resetAfter = Date.now() - 1000;
-      if (cars.every((car) => car.collided && car.endTime < resetAfter)) {
-        Car.nextGeneration(cars[0].track, true);
+      if (
+        cars.every(
+          (car) => car.driver || (car.collided && car.clock - car.endTime > 1),
+        )
+      ) {
+        Car.nextGeneration(cars[0].track, true).catch((error) =>
+          Car.log("Failed to start the next iteration:", error),
+        );
+      }
+    }
+  }
+
+  static tickTurbo(budgetMs: number, dt: number) {
+    const settings = Settings.singleton;
+    const track = Track.registry.get()[settings.currentTrack];
+    if (!track) {
+      return;
+    }
+
+    // Turbo mode runs all the cars on the main thread
+    WorkerPool.release();
+
+    const stats = Car.turboStats;
+    if (!stats.since) {
+      Object.assign(stats, { since: Date.now(), iterations: 0, bestScore: 0 });
+    }
+
+    // Simulate in fixed steps until the time budget is used up. Nothing is
+    // drawn or saved in between
+    const iterations = stats.iterations;
+    const forced = headless.forced;
+    headless.forced = true;
+    try {
+      const deadline = Date.now() + budgetMs;
+      while (Date.now() < deadline) {
+        const bestScore = Car.stepGeneration(track, dt);
+        if (bestScore !== undefined) {
+          stats.bestScore = Math.max(stats.bestScore, bestScore);
+          stats.iterations++;
+        }
       }
+    } finally {
+      headless.forced = forced;
     }
+    if (stats.iterations > iterations && !headless()) {
+      Settings.save();
+    }
+
+    // Only the cars of the latest generation show up in the snapshots
+    Promise.all(
+      Object.values(Car.registry.get())
+        .filter((car) => !car.canvas)
+        .map((car) => car.fetchImageData()),
+    ).catch((error) => Car.log("Failed to draw the cars:", error));
+  }
+
+  // Ticks all cars once and starts the next generation when they are all done.
+  // Returns the best score of the finished generation, if there was one
+  static stepGeneration(track: Track, dt: number): number | undefined {
+    const cars = Object.values(Car.registry.get());
+    track.tick(dt);
+    Car.updateTraffic(track);
+    cars.forEach((car) => car.tick(dt));
+
+    const aiCars = cars.filter((car) => car.net);
+    if (aiCars.some((car) => !car.collided)) {
+      return undefined;
+    }
+
+    // The cars of the next generation are in place as soon as this returns,
+    // only drawing them and saving is left to finish. Without any cars yet,
+    // no generation finished
+    const bestScore =
+      aiCars.length > 0
+        ? Math.max(0, ...aiCars.map((car) => car.score.score))
+        : undefined;
+    Car.nextGeneration(track, true).catch((error) =>
+      Car.log("Failed to start the next iteration:", error),
+    );
+    return bestScore;
   }
 
   static async nextGeneration(track: Track, force = false) {
     const settings = Settings.singleton;
     const cars = Car.registry.get();
 
+    // Turbo mode is only headless until its batch is over, which can be before
+    // the images below are ready. It saves once per batch itself
+    const save = !headless();
+
     // Replace the manual driver if needed
     if (
       settings.manualControl &&
       (!cars["Manual"] ||
         (cars["Manual"]?.collided ?? true) ||
-        (cars["Manual"]?.track?.name ?? "") !== track.name)
+        (cars["Manual"]?.track?.name ?? "") !== track.name ||
+        cars["Manual"].vehicle.name !== settings.manualVehicle)
     ) {
       const car = new Car("Manual", "#33eeee");
-      car.placeOnTrack(track);
+      car.placeOnTrack(track, settings.carCollisions ? 0 : undefined);
     } else if (!settings.manualControl && cars["Manual"]) {
       delete cars["Manual"];
     }
@@ -624,50 +1120,245 @@ export default class Car {
       return;
     }
 
+    // Every generation is reproducible from the seed and the iteration number
+    random.seed(settings.randomSeed, settings.numIterations);
+
     // End all runs
     aiCars.forEach((car) => car.endRun());
     aiCars.sort((a, b) => b.score.score - a.score.score);
 
     // Get the  nets to use for next generation
-    const sotaNet = new Network(settings.sotaNet);
+    const sotaNet = Car.adaptNet(new Network(settings.sotaNet));
     const sotaScore = settings.sotaScore[track.name];
-    const trackNet = aiCars[0]?.net ?? sotaNet;
+    const trackNet = Car.adaptNet(aiCars[0]?.net ?? sotaNet);
     const trackScore = aiCars[0]?.score ?? sotaScore;
-    const randomIdx = Math.floor(Math.random() * aiCars.length);
-    const randomNet = aiCars[randomIdx]?.net ?? trackNet;
+    const randomIdx = Math.floor(random() * aiCars.length);
+    const randomNet = Car.adaptNet(aiCars[randomIdx]?.net ?? trackNet);
     const randomScore = aiCars[randomIdx]?.score ?? trackScore;
 
+    // And the sensor layouts that go with them
+    const sotaLayout = Car.adaptLayout(settings.sotaSensors);
+    const layoutOf = (car?: Car) => car?.layout?.map((sensor) => sensor.config);
+    const trackLayout = Car.adaptLayout(layoutOf(aiCars[0]) ?? sotaLayout);
+    const randomLayout = Car.adaptLayout(
+      layoutOf(aiCars[randomIdx]) ?? trackLayout,
+    );
+
+    // More cars can be simulated when spread over multiple workers
+    const scale = WorkerPool.active ? WorkerPool.size : 1;
+    aiCars.forEach((car) => delete cars[car.name]);
+
+    // Traffic starts over too, ahead of the AI cars on the grid
+    Object.values(cars)
+      .filter((car) => car.driver)
+      .forEach((car) => delete cars[car.name]);
+    for (let i = 0; i < settings.trafficCars; i++) {
+      const car = new Car(`Traffic.${i}`, "#e0a000");
+      car.driver = new TrafficDriver(
+        settings.trafficLine === "racing"
+          ? track.racingLine(car.vehicle).points
+          : track.drivingLine,
+        car.vehicle.maxSpeed * settings.trafficSpeed,
+      );
+    }
+
     // Create new cars with mutated nets
-    for (let i = 0; i < settings.numSimulations.globalBest; i++) {
+    for (let i = 0; i < settings.numSimulations.globalBest * scale; i++) {
       const car = new Car(`AI.globalBest.${i}`);
-      car.net = sotaNet.randomStep(i === 0 ? 0 : calcStdDev(sotaScore));
+      const stdev = i === 0 ? 0 : calcStdDev(sotaScore);
+      car.net = sotaNet.randomStep(stdev);
+      car.evolveLayout(sotaLayout, stdev);
     }
-    for (let i = 0; i < settings.numSimulations.trackBest; i++) {
+    for (let i = 0; i < settings.numSimulations.trackBest * scale; i++) {
       const car = new Car(`AI.trackBest.${i}`);
-      car.net = trackNet.randomStep(
+      const stdev =
         i === 0 && trackScore?.score !== sotaScore?.score
           ? 0
-          : calcStdDev(trackScore),
-      );
+          : calcStdDev(trackScore);
+      car.net = trackNet.randomStep(stdev);
+      car.evolveLayout(trackLayout, stdev);
     }
-    for (let i = 0; i < settings.numSimulations.trackRandom; i++) {
+    for (let i = 0; i < settings.numSimulations.trackRandom * scale; i++) {
       const car = new Car(`AI.trackRandom.${i}`);
-      car.net = randomNet.randomStep(calcStdDev(randomScore));
+      const stdev = calcStdDev(randomScore);
+      car.net = randomNet.randomStep(stdev);
+      car.evolveLayout(randomLayout, stdev);
     }
 
     // Place all the cars on the track and signal update
     settings.numIterations++;
     Car.log("Starting iteration", settings.numIterations);
-    Object.values(cars).forEach((car) => {
-      if (!car.track) {
-        car.placeOnTrack(track);
-      }
+    const newCars = Object.values(cars).filter((car) => !car.track);
+    const firstSlot = cars["Manual"] ? 1 : 0;
+    newCars.forEach((car, idx) => {
+      car.placeOnTrack(
+        track,
+        settings.carCollisions ? firstSlot + idx : undefined,
+      );
+      // The same car gets the same sensor noise, wherever it is simulated
+      car.noise = random.stream(
+        settings.randomSeed,
+        settings.numIterations,
+        idx,
+      );
     });
-    await Promise.all(Object.values(cars).map((car) => car.fetchImageData()));
-    Settings.save();
+    track.resetObstacles();
+    if (WorkerPool.active) {
+      WorkerPool.assign(
+        track,
+        newCars.filter((car) => car.net),
+      );
+    } else {
+      WorkerPool.release();
+    }
+    await Promise.all(
+      Object.values(cars).flatMap((car) => [
+        car.fetchImageData(),
+        ...(car.layout ?? []).map((sensor) => sensor.fetchImageData()),
+      ]),
+    );
+    if (save) {
+      Settings.save();
+    }
     Car.registry.signal();
   }
 
+  // Starts the next generation from the best network only, dropping the AI
+  // cars of the current one. Used when the networks were changed by hand
+  static async restartGeneration(track: Track) {
+    const cars = Car.registry.get();
+    Object.values(cars)
+      .filter((car) => car.net)
+      .forEach((car) => delete cars[car.name]);
+    await Car.nextGeneration(track, true);
+  }
+
+  // Networks get an extra input when the nearest car distance is enabled.
+  // It goes right after the sensors, and starts out being ignored. Nets
+  // trained with a different number of sensors keep the weights of their
+  // other inputs, and the sensors they share start with the same weights
+  static adaptNet(net: Network): Network {
+    const settings = Settings.singleton;
+    const sensors = settings.sensorInputs();
+    const nearest = settings.nearestCarInput;
+    const inputs = sensors + (nearest ? 1 : 0) + 4;
+
+    // Nets keep track of their inputs. For those saved before they did, any
+    // extra input is the nearest car when they have the same sensors, and
+    // otherwise they're taken to match the nearest car setting
+    const { input, sensorInputs, nearestCarInput } = net.config;
+    const extra = input - 4 - sensors;
+    const guessed =
+      nearestCarInput ?? (extra === 0 || extra === 1 ? extra === 1 : nearest);
+    const netSensors = sensorInputs ?? input - 4 - (guessed ? 1 : 0);
+    const hadNearest = input - 4 - netSensors === 1;
+
+    const sources = [
+      ...Array.from({ length: sensors }, (_, i) =>
+        i < netSensors ? i : undefined,
+      ),
+      ...(nearest ? [hadNearest ? netSensors : undefined] : []),
+      ...Array.from({ length: 4 }, (_, i) => input - 4 + i),
+    ];
+    if (
+      input === inputs &&
+      sources.every((source, idx) => source === idx) &&
+      sensorInputs === sensors &&
+      nearestCarInput === nearest
+    ) {
+      return net;
+    }
+    return new Network({
+      ...net.remapInputs(sources).config,
+      sensorInputs: sensors,
+      nearestCarInput: nearest,
+    });
+  }
+
+  // Evolved layouts are only kept while they have the same kinds of sensors
+  // as the settings, so they fit the networks. Otherwise cars start over from
+  // the configured sensors
+  static adaptLayout(layout: SensorConfig[]): SensorConfig[] {
+    const sensors = Settings.singleton.sensors;
+    const shape = (config: SensorConfig) =>
+      config.kind === "lidar" ? `lidar.${config.rays}` : config.kind ?? "ray";
+    const fits =
+      layout.length === sensors.length &&
+      layout.every((config, i) => shape(config) === shape(sensors[i]));
+    return fits ? layout : sensors;
+  }
+
+  // Gives the car a mutated copy of the layout, when sensors evolve
+  evolveLayout(layout: SensorConfig[], stdev: number) {
+    this.layout = Settings.singleton.evolveSensors
+      ? Sensor.mutate(layout, stdev).map((config) => Sensor.create(config))
+      : null;
+  }
+
+  // Number of values in the state buffer before the sensor readings
+  static readonly stateSize = 22;
+
+  writeState(buffer: Float64Array, offset: number) {
+    buffer.set(
+      [
+        this.position.x,
+        this.position.y,
+        this.angle,
+        this.speed,
+        this.steering,
+        this.acceleration,
+        this.odometer,
+        this.laps,
+        this.clock,
+        this.startTime,
+        this.endTime,
+        this.forwardDistance,
+        this.lapProgress,
+        this.steeringEffort,
+        this.previousPosition.x,
+        this.previousPosition.y,
+        this.checkpoint,
+        this.checkpointsPassed,
+        this.checkpointTime,
+        this.backedCheckpoints,
+        this.noise.value,
+        this.collided ? 1 : 0,
+        ...this.sensorReadings,
+      ],
+      offset,
+    );
+  }
+
+  readState(buffer: Float64Array, offset: number, sensors = 0) {
+    [
+      this.position.x,
+      this.position.y,
+      this.angle,
+      this.speed,
+      this.steering,
+      this.acceleration,
+      this.odometer,
+      this.laps,
+      this.clock,
+      this.startTime,
+      this.endTime,
+      this.forwardDistance,
+      this.lapProgress,
+      this.steeringEffort,
+      this.previousPosition.x,
+      this.previousPosition.y,
+      this.checkpoint,
+      this.checkpointsPassed,
+      this.checkpointTime,
+      this.backedCheckpoints,
+      this.noise.value,
+    ] = buffer.subarray(offset, offset + Car.stateSize - 1);
+    this.collided = buffer[offset + Car.stateSize - 1] > 0;
+    this.sensorReadings = Array.from(
+      buffer.subarray(offset + Car.stateSize, offset + Car.stateSize + sensors),
+    );
+  }
+
   static log(...args: any[]) {
     const res = args
       .map((arg) => {
@@ -691,17 +1382,23 @@ export default class Car {
   }
 }
 
-export interface Score {
+export interface Score extends Partial<FitnessComponents> {
   distance: number;
   time: number;
   laps: number;
   success: boolean;
   score: number;
+  fitness?: string; // Name of the fitness function that computed the score
+  vehicle?: string; // Name of the vehicle profile of the car
 }
 
 function calcStdDev(score?: Score): number {
   if (!score || !score.score || !score.distance || !score.time) {
     return 1;
   }
-  return clamp(Math.sqrt(10 / score.score), 0.1, 1);
+  return clamp(
+    Math.sqrt(Fitness.of(score.fitness).baseline / score.score),
+    0.1,
+    1,
+  );
 }
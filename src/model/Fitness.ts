@@ -0,0 +1,98 @@
+import Settings from "./Settings";
+
+export default class Fitness {
+  static registry: Record<string, Fitness> = {};
+
+  constructor(
+    public readonly name: string,
+    public readonly label: string,
+    public readonly description: string,
+    // Score of a car that barely made it past the starting line, used to size
+    // the mutations of the networks
+    public readonly baseline: number,
+    private readonly fn: (components: FitnessComponents) => number,
+  ) {
+    Fitness.registry[name] = this;
+  }
+
+  static get current(): Fitness {
+    return (
+      Fitness.registry[Settings.singleton.fitnessFunction] ?? Fitness.default
+    );
+  }
+
+  static get default(): Fitness {
+    return Fitness.registry["default"];
+  }
+
+  // Scores recorded before fitness functions were introduced used the default
+  static of(tag?: string): Fitness {
+    return (tag && Fitness.registry[tag]) || Fitness.default;
+  }
+
+  evaluate(components: FitnessComponents): number {
+    const score = this.fn(components);
+    return isFinite(score) ? score : 0;
+  }
+}
+
+export interface FitnessComponents {
+  distance: number; // car lengths, only counting progress along the track
+  time: number; // s, since crossing the starting line
+  laps: number;
+  progress: number; // laps, including the fraction of the current one
+  steering: number; // Sum of the steering changes (-1 to +1) times the tick length, in s
+}
+
+export type FitnessWeights = Record<keyof FitnessComponents, number>;
+
+new Fitness(
+  "default",
+  "Distance and Laps",
+  "Distance covered minus time spent, with a bonus that grows with every lap",
+  10,
+  ({ distance, time, laps }) =>
+    Math.max(0, distance - time) + (laps + 1) ** 2 * 10,
+);
+
+new Fitness(
+  "lapTime",
+  "Lap Time",
+  "Laps completed per 1000s, with a little credit for partial progress",
+  1,
+  ({ time, laps, progress }) =>
+    progress * 10 + (laps > 0 && time > 0 ? (laps * 1000) / time : 0),
+);
+
+new Fitness(
+  "distance",
+  "Distance Only",
+  "Distance covered along the track, regardless of time",
+  1,
+  ({ distance }) => Math.max(0, distance),
+);
+
+new Fitness(
+  "smooth",
+  "Smooth Driving",
+  "Same as distance and laps, minus a penalty for jerky steering",
+  10,
+  (components) =>
+    Math.max(0, Fitness.default.evaluate(components) - components.steering),
+);
+
+new Fitness(
+  "custom",
+  "Custom Weights",
+  "Weighted sum of the score components, see the weights in the settings",
+  1,
+  (components) => {
+    const weights = Settings.singleton.fitnessWeights;
+    let k: keyof FitnessComponents;
+    let score = 0;
+    for (k in weights) {
+      score += (weights[k] ?? 0) * (components[k] ?? 0);
+    }
+    return score;
+  },
+);
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+
+import random from "../utils/random";
+import Network from "./Network";
+
+// Small random weights, so that none of the neurons get clamped
+function trainedNet(input: number, hidden: number[]): Network {
+  random.seed(7);
+  const net = Network.init(input, 2, hidden);
+  net.config.weights.forEach((layer) =>
+    layer.forEach((neuron) =>
+      neuron.forEach((_, idx) => (neuron[idx] = (random() - 0.5) * 0.3)),
+    ),
+  );
+  return net;
+}
+
+const inputs = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, -0.7, 0.8, 0.9];
+
+describe("Network resizing", () => {
+  const net = trainedNet(9, [4, 3]);
+  const outputs = net.eval(inputs);
+
+  it("adds layers that pass on their inputs", () => {
+    [0, 1, 2].forEach((index) => {
+      const resized = net.insertLayer(index);
+      expect(resized.config.hidden).toHaveLength(3);
+      expect(resized.eval(inputs)).toEqual(outputs);
+    });
+  });
+
+  it("adds neurons that don't contribute", () => {
+    [0, 1].forEach((layer) => {
+      const resized = net.insertNeuron(layer);
+      expect(resized.config.hidden[layer]).toBe(net.config.hidden[layer] + 1);
+      expect(resized.eval(inputs)).toEqual(outputs);
+    });
+  });
+
+  it("removes added neurons and layers again", () => {
+    expect(net.insertNeuron(1).removeNeuron(1).eval(inputs)).toEqual(outputs);
+    expect(net.insertLayer(1).removeLayer(1).eval(inputs)).toEqual(outputs);
+  });
+
+  it("folds removed layers into the next one", () => {
+    [0, 1].forEach((index) => {
+      const resized = net.removeLayer(index);
+      expect(resized.config.hidden).toHaveLength(1);
+      resized.eval(inputs).forEach((value, idx) => {
+        expect(value).toBeCloseTo(outputs[idx], 10);
+      });
+    });
+  });
+
+  it("refuses to fold layers into weights past the cap", () => {
+    const strong = net.insertLayer(1);
+    strong.config.weights[1].forEach((neuron) => neuron.fill(1.5));
+    strong.config.weights[2].forEach((neuron) => neuron.fill(1.5));
+    expect(strong.canRemoveLayer(1)).toBe(false);
+    expect(() => strong.removeLayer(1)).toThrow();
+    expect(strong.canRemoveLayer(0)).toBe(true);
+  });
+
+  it("keeps the weights of remapped inputs", () => {
+    // Drops the second input and adds a new one after the fifth
+    const resized = net.remapInputs([0, 2, 3, 4, undefined, 5, 6, 7, 8]);
+    const moved = [0.1, 0.3, 0.4, 0.5, 0.77, 0.6, -0.7, 0.8, 0.9];
+    const dropped = [...inputs];
+    dropped[1] = 0;
+    expect(resized.eval(moved)).toEqual(net.eval(dropped));
+  });
+});
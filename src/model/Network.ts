@@ -2,6 +2,8 @@ import clamp from "../utils/clamp";
 import gaussian from "../utils/gaussian";
 
 export default class Network {
+  static readonly weightCap = 2; // Bit arbitrary...
+
   constructor(public readonly config: NetworkConfig) {
     this.validate();
     this.regularize();
@@ -67,7 +69,7 @@ export default class Network {
 
   regularize() {
     const weights = this.config.weights;
-    const cap = 2; // Bit arbitrary...
+    const cap = Network.weightCap;
     for (let i = 0; i < weights.length; i++) {
       for (let j = 0; j < weights[i].length; j++) {
         for (let k = 0; k < weights[i][j].length; k++) {
@@ -109,6 +111,140 @@ export default class Network {
     }
   }
 
+  // Adds an input before the given one, with zero weights so that the
+  // network still computes the same outputs
+  insertInput(index: number): Network {
+    return this.mapInputWeights((neuron) => [
+      ...neuron.slice(0, index),
+      0,
+      ...neuron.slice(index),
+    ]);
+  }
+
+  // Drops an input along with its weights
+  removeInput(index: number): Network {
+    return this.mapInputWeights((neuron) =>
+      neuron.filter((_, idx) => idx !== index),
+    );
+  }
+
+  // Rearranges the inputs. Each new input takes the weights of the old one at
+  // the given index, or zero weights when there is none
+  remapInputs(sources: (number | undefined)[]): Network {
+    return this.mapInputWeights((neuron) => [
+      ...sources.map((source) => (source === undefined ? 0 : neuron[source])),
+      ...neuron.slice(this.config.input),
+    ]);
+  }
+
+  // Adds a hidden layer at the given position, which passes on its inputs
+  // unchanged. They are all within -1 and +1, so the activation keeps them
+  // as they are. The last one only feeds the bias of the next layer, which
+  // keeps its own weight
+  insertLayer(index: number): Network {
+    const { input, hidden, weights } = this.config;
+    const size = index === 0 ? input : hidden[index - 1];
+    const identity = Array.from({ length: size }, (_, j) =>
+      Array.from({ length: size + 1 }, (_, k) =>
+        k === j && j < size - 1 ? 1 : 0,
+      ),
+    );
+    return new Network({
+      ...this.config,
+      hidden: [...hidden.slice(0, index), size, ...hidden.slice(index)],
+      weights: copyWeights([
+        ...weights.slice(0, index),
+        identity,
+        ...weights.slice(index),
+      ]),
+    });
+  }
+
+  // Drops a hidden layer, folding its weights into the next layer. The
+  // outputs stay the same as long as none of its neurons were clamped by the
+  // activation. Folding can add up to weights past the cap, which would have
+  // to be clamped, so those layers can't be removed
+  removeLayer(index: number): Network {
+    if (!this.canRemoveLayer(index)) {
+      throw new Error(`Layer ${index} folds into weights past the cap`);
+    }
+    const { hidden, weights } = this.config;
+    const merged = this.foldLayer(index);
+    return new Network({
+      ...this.config,
+      hidden: hidden.filter((_, idx) => idx !== index),
+      weights: copyWeights([
+        ...weights.slice(0, index),
+        merged,
+        ...weights.slice(index + 2),
+      ]),
+    });
+  }
+
+  canRemoveLayer(index: number): boolean {
+    return this.foldLayer(index).every((neuron) =>
+      neuron.every((weight) => Math.abs(weight) <= Network.weightCap),
+    );
+  }
+
+  private foldLayer(index: number): number[][] {
+    const { hidden, weights } = this.config;
+    const into = weights[index];
+    const out = weights[index + 1];
+    const size = hidden[index];
+    return out.map((neuron) =>
+      into[0].map((_, k) => {
+        let sum = k === into[0].length - 2 ? neuron[size - 1] : 0;
+        for (let j = 0; j < size - 1; j++) {
+          sum += neuron[j] * into[j][k];
+        }
+        return k === into[0].length - 1 ? 0 : sum;
+      }),
+    );
+  }
+
+  // Adds a neuron to a hidden layer with zero weights in and out, so it
+  // doesn't change anything until it's trained. It goes before the last
+  // neuron, which only feeds the bias of the next layer
+  insertNeuron(layer: number, index = this.config.hidden[layer] - 1): Network {
+    const { hidden, weights } = this.config;
+    const copy = copyWeights(weights);
+    copy[layer].splice(
+      index,
+      0,
+      copy[layer][0].map(() => 0),
+    );
+    copy[layer + 1].forEach((neuron) => neuron.splice(index, 0, 0));
+    return new Network({
+      ...this.config,
+      hidden: hidden.map((size, idx) => (idx === layer ? size + 1 : size)),
+      weights: copy,
+    });
+  }
+
+  // Drops a neuron of a hidden layer along with what it contributed
+  removeNeuron(layer: number, index = this.config.hidden[layer] - 2): Network {
+    const { hidden, weights } = this.config;
+    const copy = copyWeights(weights);
+    copy[layer].splice(index, 1);
+    copy[layer + 1].forEach((neuron) => neuron.splice(index, 1));
+    return new Network({
+      ...this.config,
+      hidden: hidden.map((size, idx) => (idx === layer ? size - 1 : size)),
+      weights: copy,
+    });
+  }
+
+  private mapInputWeights(fn: (neuron: number[]) => number[]): Network {
+    const [first, ...rest] = this.config.weights;
+    const weights = [first.map(fn), ...copyWeights(rest)];
+    return new Network({
+      ...this.config,
+      input: weights[0][0].length - 1,
+      weights,
+    });
+  }
+
   randomStep(stdev: number): Network {
     return new Network({
       ...this.config,
@@ -119,10 +255,18 @@ export default class Network {
   }
 }
 
+function copyWeights(weights: number[][][]): number[][][] {
+  return weights.map((layer) => layer.map((neuron) => [...neuron]));
+}
+
 export interface NetworkConfig {
   input: number;
   hidden: number[];
   output: number;
 
   weights: number[][][]; // [layer][neuron][input]
+
+  // What the inputs are, so they can be rearranged for other sensors
+  sensorInputs?: number;
+  nearestCarInput?: boolean;
 }
@@ -0,0 +1,130 @@
+import { arcLengths, Point, pointAlong } from "../utils/geometry";
+import svgPath from "../utils/svgPath";
+
+export default class Obstacle {
+  // Route followed by moving obstacles
+  private route: Point[] = [];
+  private arcs: number[] = [];
+  private closed = false;
+
+  public position: Point = { x: 0, y: 0 };
+  public angle = 0; // radians. 0 = right, pi/2 = down
+
+  constructor(public readonly config: ObstacleConfig) {
+    if (config.kind === "blocker") {
+      this.route = svgPath(config.path)[0] ?? [];
+      this.arcs = arcLengths(this.route);
+      this.closed = /z\s*$/i.test(config.path);
+    } else {
+      this.position = { ...config.position };
+      this.angle = config.kind === "barrier" ? config.angle : 0;
+    }
+    this.moveTo(0);
+  }
+
+  get moving(): boolean {
+    return this.config.kind === "blocker";
+  }
+
+  get width(): number {
+    switch (this.config.kind) {
+      case "cone":
+        return 8;
+      case "barrier":
+        return this.config.length;
+      case "blocker":
+        return 24;
+    }
+  }
+
+  get height(): number {
+    switch (this.config.kind) {
+      case "cone":
+        return 8;
+      case "barrier":
+        return 6;
+      case "blocker":
+        return 14;
+    }
+  }
+
+  get color(): string {
+    switch (this.config.kind) {
+      case "cone":
+        return "orange";
+      case "barrier":
+        return "firebrick";
+      case "blocker":
+        return "dimgray";
+    }
+  }
+
+  // Outline of the obstacle on the track
+  get polygon(): Point[] {
+    const cos = Math.cos(this.angle);
+    const sin = Math.sin(this.angle);
+    const corners =
+      this.config.kind === "cone"
+        ? Array.from({ length: 8 }, (_, i) => ({
+            x: Math.cos((i * Math.PI) / 4) / 2,
+            y: Math.sin((i * Math.PI) / 4) / 2,
+          }))
+        : [
+            { x: -0.5, y: -0.5 },
+            { x: 0.5, y: -0.5 },
+            { x: 0.5, y: 0.5 },
+            { x: -0.5, y: 0.5 },
+          ];
+    return corners.map(({ x, y }) => ({
+      x: this.position.x + x * this.width * cos - y * this.height * sin,
+      y: this.position.y + x * this.width * sin + y * this.height * cos,
+    }));
+  }
+
+  svg(fill: string, extra = ""): string {
+    const points = this.polygon.map(({ x, y }) => `${x},${y}`).join(" ");
+    return `<polygon points="${points}" fill="${fill}" ${extra} />`;
+  }
+
+  // Moving obstacles go around closed routes, and back and forth otherwise
+  moveTo(time: number) {
+    if (this.config.kind !== "blocker" || this.route.length < 2) {
+      return;
+    }
+
+    const length = this.arcs[this.arcs.length - 1];
+    let arc = (this.config.speed * time) % (length * 2);
+    let direction = 1;
+    if (this.closed) {
+      arc %= length;
+    } else if (arc > length) {
+      arc = length * 2 - arc;
+      direction = -1;
+    }
+
+    const ahead = Math.min(length, Math.max(0, arc + direction));
+    const p1 = pointAlong(this.route, this.arcs, arc);
+    const p2 = pointAlong(this.route, this.arcs, ahead);
+    this.position = p1;
+    if (p1.x !== p2.x || p1.y !== p2.y) {
+      this.angle = Math.atan2(p2.y - p1.y, p2.x - p1.x);
+    }
+  }
+
+  render(context: CanvasRenderingContext2D) {
+    const [first, ...rest] = this.polygon;
+    context.save();
+    context.fillStyle = this.color;
+    context.beginPath();
+    context.moveTo(first.x, first.y);
+    rest.forEach(({ x, y }) => context.lineTo(x, y));
+    context.closePath();
+    context.fill();
+    context.restore();
+  }
+}
+
+export type ObstacleConfig =
+  | { kind: "cone"; position: Point }
+  | { kind: "barrier"; position: Point; angle: number; length: number }
+  | { kind: "blocker"; path: string; speed: number };
@@ -0,0 +1,53 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+import headless from "../utils/headless";
+import Car from "./Car";
+import Offline from "./Offline";
+import Sensor from "./Sensor";
+import Settings from "./Settings";
+import Track from "./Track";
+
+describe("Offline.simulate", () => {
+  beforeAll(async () => {
+    Settings.reset();
+    await Promise.all([Track.loadAll(), Sensor.loadAll()]);
+  });
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    const cars = Car.registry.get();
+    Object.keys(cars).forEach((name) => delete cars[name]);
+    vi.spyOn(Settings, "save").mockResolvedValue(undefined);
+  });
+
+  // Settings as saved the given number of iterations' worth of time ago
+  function awayFor(iterations: number) {
+    const settings = Settings.reset({ currentTrack: "Basic" });
+    settings.lastSaved =
+      settings.lastLoaded -
+      iterations * settings.offlineSecsPerIteration * 1000;
+    return settings;
+  }
+
+  it("only counts the generations that ran to the end", async () => {
+    const settings = awayFor(1);
+    headless.forced = true;
+    const summary = await Offline.simulate();
+    expect(summary?.iterations).toBe(1);
+
+    // One generation ran, and the next one has started
+    expect(settings.numIterations).toBe(2);
+  });
+
+  it("keeps the headless setting it started with", async () => {
+    awayFor(2);
+    vi.spyOn(Car.prototype, "fetchImageData").mockResolvedValue(undefined);
+    headless.forced = false;
+    try {
+      await Offline.simulate();
+      expect(headless.forced).toBe(false);
+    } finally {
+      headless.forced = true;
+    }
+  });
+});
@@ -0,0 +1,91 @@
+import headless from "../utils/headless";
+import genRegistry from "../utils/registry";
+import Car from "./Car";
+import Settings from "./Settings";
+import Track from "./Track";
+
+export default class Offline {
+  static registry = genRegistry<{ summary?: OfflineSummary }>({});
+
+  static useHook() {
+    return Offline.registry.useHook().summary;
+  }
+
+  static dismiss() {
+    delete Offline.registry.get().summary;
+    Offline.registry.signal();
+  }
+
+  // Catch up on the generations that would have run since the last save
+  static async simulate(): Promise<OfflineSummary | undefined> {
+    const settings = Settings.singleton;
+    const track = Track.registry.get()[settings.currentTrack];
+    if (!settings.offlineProgress || !settings.lastSaved || !track) {
+      return undefined;
+    }
+
+    const awaySecs = (settings.lastLoaded - settings.lastSaved) / 1000;
+    const target = Math.min(
+      settings.maxOfflineIterations,
+      Math.floor(awaySecs / settings.offlineSecsPerIteration),
+    );
+    if (target <= 0) {
+      return undefined;
+    }
+
+    const startNet = settings.sotaNet;
+    const startScores = Object.fromEntries(
+      Object.entries(settings.sotaScore).map(([name, s]) => [name, s?.score]),
+    );
+
+    // Run without rendering anything until caught up or out of time. Only the
+    // generations that ran to the end count
+    let iterations = 0;
+    const forced = headless.forced;
+    headless.forced = true;
+    try {
+      const deadline = Date.now() + settings.maxOfflineMs;
+      let yieldAt = Date.now() + 50;
+      while (iterations < target && Date.now() < deadline) {
+        if (Car.stepGeneration(track, settings.turboStepSecs) !== undefined) {
+          iterations++;
+        }
+        if (Date.now() >= yieldAt) {
+          await new Promise((resolve) => setTimeout(resolve, 0));
+          yieldAt = Date.now() + 50;
+        }
+      }
+    } finally {
+      headless.forced = forced;
+    }
+
+    const cars = Object.values(Car.registry.get());
+    await Promise.all(cars.map((car) => car.fetchImageData()));
+    await Settings.save();
+
+    const summary: OfflineSummary = {
+      awaySecs,
+      iterations,
+      newBest: settings.sotaNet !== startNet,
+      improved: Object.fromEntries(
+        Object.entries(settings.sotaScore)
+          .filter(([name, s]) => (s?.score ?? 0) > (startScores[name] ?? 0))
+          .map(([name, s]) => [
+            name,
+            { before: startScores[name] ?? 0, after: s.score },
+          ]),
+      ),
+    };
+
+    Offline.registry.get().summary = summary;
+    Offline.registry.signal();
+    return summary;
+  }
+}
+
+export interface OfflineSummary {
+  awaySecs: number;
+  iterations: number;
+  newBest: boolean; // The all-time best network was replaced
+  improved: Record<string, { before: number; after: number }>; // Track name => scores
+}
@@ -0,0 +1,199 @@
+import clamp from "../utils/clamp";
+import { Point } from "../utils/geometry";
+import Settings, { VehicleProfile } from "./Settings";
+
+// Smoothest line around a closed track, and the fastest a car could drive it.
+// The minimum curvature line is found by moving the points of the middle of
+// the road sideways, while keeping them within reach of the road edges
+export default class RacingLine {
+  readonly points: Point[];
+  private lengths: number[]; // px, from each point to the next
+  private radius: number[]; // px, of the bend at each point
+
+  constructor(
+    center: Point[], // Closed loop in the driving direction
+    room: number, // px, how far the line can move away from the center
+    iterations = 500, // At each level of detail
+  ) {
+    const count = center.length;
+    const normals = center.map((_, i) => {
+      const prev = center[(i + count - 1) % count];
+      const next = center[(i + 1) % count];
+      const len = Math.hypot(next.x - prev.x, next.y - prev.y) || 1;
+      return { x: -(next.y - prev.y) / len, y: (next.x - prev.x) / len };
+    });
+
+    // Worked out on every few points first, since bends spread out slowly
+    // over many points, then refined on all of them
+    const offsets = center.map(() => 0);
+    for (let stride = 8; stride >= 1; stride /= 2) {
+      relax(center, normals, offsets, stride, room, iterations);
+    }
+    const points = center.map((p, i) => ({
+      x: p.x + normals[i].x * offsets[i],
+      y: p.y + normals[i].y * offsets[i],
+    }));
+    this.points = points;
+
+    this.lengths = points.map((p, i) => {
+      const next = points[(i + 1) % count];
+      return Math.hypot(next.x - p.x, next.y - p.y);
+    });
+
+    // Measured over a car length or two, as bends tighter than that can be
+    // cut across
+    this.radius = points.map((_, i) => {
+      let prev = i;
+      let next = i;
+      for (let k = 0, along = 0; k < count && along < RADIUS_SPAN; k++) {
+        prev = (prev + count - 1) % count;
+        along += this.lengths[prev];
+      }
+      for (let k = 0, along = 0; k < count && along < RADIUS_SPAN; k++) {
+        along += this.lengths[next];
+        next = (next + 1) % count;
+      }
+      return circumradius(points[prev], points[i], points[next]);
+    });
+  }
+
+  // Top speed at each point of the line, limited by how fast the car can turn
+  // and how hard it can accelerate and brake between the bends
+  speeds(vehicle: VehicleProfile): number[] {
+    const settings = Settings.singleton;
+    const count = this.points.length;
+    const speeds = this.radius.map((radius) =>
+      Math.min(
+        vehicle.maxSpeed,
+        vehicle.maxSteering * radius,
+        settings.physicsModel === "drift"
+          ? Math.sqrt(vehicle.tireGrip * radius)
+          : Infinity,
+      ),
+    );
+
+    // Going around twice carries the limits over the starting point
+    for (let n = 0; n < count * 2; n++) {
+      const i = n % count;
+      const next = (i + 1) % count;
+      const reachable = Math.sqrt(
+        speeds[i] ** 2 + 2 * vehicle.maxAcceleration * this.lengths[i],
+      );
+      speeds[next] = Math.min(speeds[next], reachable);
+    }
+    for (let n = count * 2; n > 0; n--) {
+      const i = n % count;
+      const prev = (i + count - 1) % count;
+      const stoppable = Math.sqrt(
+        speeds[i] ** 2 + 2 * vehicle.maxAcceleration * this.lengths[prev],
+      );
+      speeds[prev] = Math.min(speeds[prev], stoppable);
+    }
+    return speeds;
+  }
+
+  // s, for a flying lap of the line at the top speed everywhere
+  lapTime(vehicle: VehicleProfile): number {
+    const speeds = this.speeds(vehicle);
+    const count = speeds.length;
+    return this.lengths.reduce((time, len, i) => {
+      const speed = (speeds[i] + speeds[(i + 1) % count]) / 2;
+      return time + (speed > 0 ? len / speed : 0);
+    }, 0);
+  }
+
+  // Percentage of the ideal pace achieved by a car that covered the given
+  // number of laps in the given time
+  ofOptimal(vehicle: VehicleProfile, laps: number, time: number): number {
+    if (time <= 0 || laps <= 0) {
+      return 0;
+    }
+    return (this.lapTime(vehicle) * laps * 100) / time;
+  }
+
+  render(context: CanvasRenderingContext2D) {
+    const [first, ...rest] = this.points;
+    if (!first) {
+      return;
+    }
+    context.save();
+    context.strokeStyle = "magenta";
+    context.lineWidth = 2;
+    context.setLineDash([6, 4]);
+    context.beginPath();
+    context.moveTo(first.x, first.y);
+    rest.forEach(({ x, y }) => context.lineTo(x, y));
+    context.closePath();
+    context.stroke();
+    context.restore();
+  }
+}
+
+const RADIUS_SPAN = 40; // px
+
+// Radius of the circle through the three points, infinite when in a line
+function circumradius(a: Point, b: Point, c: Point): number {
+  const ab = Math.hypot(b.x - a.x, b.y - a.y);
+  const bc = Math.hypot(c.x - b.x, c.y - b.y);
+  const ca = Math.hypot(a.x - c.x, a.y - c.y);
+  const cross = Math.abs((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x));
+  return cross > 1e-9 ? (ab * bc * ca) / (2 * cross) : Infinity;
+}
+
+// Straightens out the bends of the line through every stride-th point a little
+// at a time, moving the points only along the normal to the road so the line
+// stays on it. Each point is pushed by the change in curvature around it,
+// which is the gradient of the total squared curvature of the line. Offsets
+// of the points in between are interpolated
+function relax(
+  center: Point[],
+  normals: Point[],
+  offsets: number[],
+  stride: number,
+  room: number,
+  iterations: number,
+) {
+  const count = Math.floor(center.length / stride);
+  if (count < 5) {
+    return;
+  }
+
+  const idx = Array.from({ length: count }, (_, i) => i * stride);
+  const at = (i: number) => idx[(i + count) % count];
+  const point = (i: number) => ({
+    x: center[at(i)].x + normals[at(i)].x * offsets[at(i)],
+    y: center[at(i)].y + normals[at(i)].y * offsets[at(i)],
+  });
+  for (let n = 0; n < iterations; n++) {
+    const points = idx.map((_, i) => point(i));
+    const bends = points.map((p, i) => ({
+      x:
+        points[(i + count - 1) % count].x + points[(i + 1) % count].x - p.x * 2,
+      y:
+        points[(i + count - 1) % count].y + points[(i + 1) % count].y - p.y * 2,
+    }));
+    bends.forEach((b, i) => {
+      const prev = bends[(i + count - 1) % count];
+      const next = bends[(i + 1) % count];
+      const push = {
+        x: prev.x + next.x - b.x * 2,
+        y: prev.y + next.y - b.y * 2,
+      };
+      const normal = normals[at(i)];
+      offsets[at(i)] = clamp(
+        offsets[at(i)] - (push.x * normal.x + push.y * normal.y) / 16,
+        -room,
+        room,
+      );
+    });
+  }
+
+  // The last stretch wraps around to the first point
+  idx.forEach((from, i) => {
+    const to = i + 1 < count ? idx[i + 1] : center.length;
+    for (let k = from + 1; k < to; k++) {
+      const t = (k - from) / (to - from);
+      offsets[k] = offsets[from] * (1 - t) + offsets[to % center.length] * t;
+    }
+  });
+}
@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { RasterMask } from "../utils/rasterMask";
+import random from "../utils/random";
+import Sensor, { SensorInput } from "./Sensor";
+import Settings, { SensorConfig } from "./Settings";
+import Track from "./Track";
+
+// Road 40px wide going right, with the car in the middle of it
+function straightRoad(): SensorInput {
+  const mask = new RasterMask(200, 100, Sensor.canvasColor.offTrack);
+  mask.fillPolygon(
+    [
+      { x: 0, y: 30 },
+      { x: 200, y: 30 },
+      { x: 200, y: 70 },
+      { x: 0, y: 70 },
+    ],
+    Sensor.canvasColor.available,
+  );
+  return {
+    mask,
+    track: { raster: mask, drivingLine: [] } as unknown as Track,
+    x: 50,
+    y: 50,
+    heading: 0,
+    clearance: 0,
+  };
+}
+
+function read(config: SensorConfig, input = straightRoad()): number[] {
+  return Sensor.create(config).read(input);
+}
+
+describe("Sensor", () => {
+  beforeEach(() => {
+    Settings.reset();
+  });
+
+  it("reads the distance along a ray as a fraction of its range", () => {
+    expect(read({ kind: "ray", range: 100, angle: 0 })).toEqual([0.99]);
+    // Rows 30 to 69 are road, 19px below the car and 20px above it
+    expect(read({ kind: "ray", range: 100, angle: Math.PI / 2 })[0]).toBe(0.19);
+    expect(read({ kind: "ray", range: 100, angle: -Math.PI / 2 })[0]).toBe(0.2);
+  });
+
+  it("reads the closest edge within a cone", () => {
+    const [reading] = read({
+      kind: "cone",
+      range: 100,
+      angle: 0,
+      spread: Math.PI,
+    });
+    expect(reading).toBe(0.19);
+  });
+
+  it("reads the same distances with a lidar as with single rays", () => {
+    const angles = [-Math.PI / 2, -Math.PI / 4, 0, Math.PI / 4, Math.PI / 2];
+    const lidar = read({ kind: "lidar", range: 100, arc: Math.PI, rays: 5 });
+    const rays = angles.flatMap((angle) =>
+      read({ kind: "ray", range: 100, angle }),
+    );
+    expect(lidar).toEqual(rays);
+  });
+
+  it("repeats noisy readings from the same seed", () => {
+    const config: SensorConfig = {
+      kind: "ray",
+      range: 100,
+      angle: 0,
+      noise: 0.1,
+      dropout: 0.2,
+    };
+    const readAll = () => {
+      random.seed(42);
+      return Array.from({ length: 20 }, () => read(config)[0]);
+    };
+    const first = readAll();
+    expect(readAll()).toEqual(first);
+    expect(new Set(first).size).toBeGreaterThan(1);
+  });
+
+  it("quantizes readings into levels", () => {
+    const [reading] = read({
+      kind: "ray",
+      range: 100,
+      angle: Math.PI / 2,
+      quantization: 3,
+    });
+    expect(reading).toBe(0);
+  });
+});
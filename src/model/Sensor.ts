@@ -1,61 +1,79 @@
 import clamp from "../utils/clamp";
 import composeImage, { ComposedImage } from "../utils/composeImage";
+import gaussian from "../utils/gaussian";
+import { Point } from "../utils/geometry";
+import headless from "../utils/headless";
+import random from "../utils/random";
+import { RasterMask } from "../utils/rasterMask";
 import genRegistry from "../utils/registry";
-import Settings from "./Settings";
+import Settings, { SensorConfig, Surface } from "./Settings";
+import Track from "./Track";
 
-export default class Sensor {
+// Sensors come in several kinds, each with their own config, reading and
+// rendering. Masks and images are centered on the car, facing right
+export default abstract class Sensor {
   static registry = genRegistry<Sensor[]>([]);
 
   private renderImage: ComposedImage | undefined = undefined;
-  private path: string;
 
-  constructor(public readonly range: number, public readonly angle: number) {
-    const dx = range * Math.cos(angle);
-    const dy = range * Math.sin(angle);
-    this.path = `M ${~~range} ${~~range} l ${~~dx} ${~~dy}`;
+  constructor(public readonly config: SensorConfig) {}
+
+  static create(config: SensorConfig): Sensor {
+    switch (config.kind) {
+      case "cone":
+        return new ConeSensor(config);
+      case "curvature":
+        return new CurvatureSensor(config);
+      case "surface":
+        return new SurfaceSensor(config);
+      case "heading":
+        return new HeadingSensor(config);
+      case "lidar":
+        return new LidarSensor(config);
+      default:
+        return new RaySensor(config);
+    }
   }
 
   static useHook() {
     return Sensor.registry.useHook();
   }
 
-  get maskColor() {
-    return Sensor.radar;
+  abstract get range(): number; // px, reach of the sensor around the car
+  abstract get label(): string;
+
+  // Readings go from -1 to +1 instead of 0 to 1
+  get signed(): boolean {
+    return false;
+  }
+
+  // Number of readings, each one an input of the network
+  get inputs(): number {
+    return 1;
   }
 
+  // SVG elements of the sensor, in a box twice the range wide
+  protected abstract shape(color: string, mask: boolean): string;
+
+  // Exact readings, before noise and dropouts
+  protected abstract measure(input: SensorInput): number | number[];
+
   get mask(): string {
-    return [
-      `<svg
-        width="${this.range * 2}px"
-        height="${this.range * 2}px"
-        viewBox="0 0 ${this.range * 2} ${this.range * 2}"
-      >`,
-      `<path
-        d="${this.path}"
-        stroke="${Sensor.color.radar}"
-        stroke-width="2px"
-        stroke-linecap="butt"
-        fill="none"
-        shape-rendering="crispEdges"
-      />`,
-      `</svg>`,
-    ].join("");
+    return this.svg(this.shape(Sensor.color.radar, true));
   }
 
   get image(): string {
+    return this.svg(this.shape("green", false));
+  }
+
+  private svg(shape: string): string {
     return [
       `<svg
         width="${this.range * 2}px"
         height="${this.range * 2}px"
         viewBox="0 0 ${this.range * 2} ${this.range * 2}"
       >`,
-      `<path
-        d="${this.path}"
-        stroke="green"
-        stroke-width="2px"
-        stroke-linecap="round"
-        fill="none"
-      />`,
+      shape,
       `</svg>`,
     ].join("");
   }
@@ -65,6 +83,9 @@ export default class Sensor {
   }
 
   async fetchImageData() {
+    if (headless()) {
+      return this.renderImage;
+    }
     this.renderImage = await composeImage([this.image], {
       reuse: this.renderImage,
       clear: true,
@@ -74,42 +95,52 @@ export default class Sensor {
     return this.renderImage;
   }
 
-  render(context: CanvasRenderingContext2D, scale = 1) {
+  // Distance sensors are drawn in full, and brighter up to the reading
+  render(context: CanvasRenderingContext2D, [reading = 1]: number[] = []) {
     if (!this.canvas) {
       return;
     }
 
     const all = ~~this.range;
-    const pos = ~~(this.range * scale);
+    const pos = ~~(this.range * reading);
     context.globalCompositeOperation = "lighter";
     context.drawImage(this.canvas, -all, -all, all * 2, all * 2);
     context.globalCompositeOperation = "source-over";
     context.drawImage(this.canvas, -pos, -pos, pos * 2, pos * 2);
   }
 
-  read(
-    buffer: Uint32Array,
-    width: number,
-    height: number,
-    centerX: number,
-    centerY: number,
-    heading: number,
-  ) {
-    const dx = Math.cos(this.angle + heading);
-    const dy = Math.sin(this.angle + heading);
-
-    let dist = 0;
-    for (let r = 0; r < this.range; r++) {
-      const row = clamp(~~(centerY + r * dy), 0, height - 1);
-      const col = clamp(~~(centerX + r * dx), 0, width - 1);
-      if (Sensor.check(buffer[row * width + col], Sensor.offTrack)) {
-        break;
-      } else {
-        dist = r;
-      }
+  read(input: SensorInput): number[] {
+    const values = this.measure(input);
+    return (Array.isArray(values) ? values : [values]).map((value) =>
+      this.respond(value),
+    );
+  }
+
+  // What the sensor reports for the exact reading
+  private respond(value: number): number {
+    const { noise = 0, quantization = 0, dropout = 0 } = this.config;
+    if (dropout > 0 && random() < dropout) {
+      return 0;
+    }
+
+    const min = this.signed ? -1 : 0;
+    let reading = value;
+    if (noise > 0) {
+      reading = clamp(gaussian(reading, noise), min, 1);
     }
+    if (quantization > 1) {
+      const steps = quantization - 1;
+      reading =
+        min +
+        (Math.round(((reading - min) * steps) / (1 - min)) * (1 - min)) / steps;
+    }
+    return reading;
+  }
 
-    return clamp(dist / this.range, 0, 1);
+  // Distances as a fraction of the range, shaped by the attenuation curve
+  protected attenuate(distance: number): number {
+    const curve = ATTENUATION[this.config.attenuation ?? "linear"];
+    return (curve ?? ATTENUATION.linear)(clamp(distance / this.range, 0, 1));
   }
 
   /////////////
@@ -119,6 +150,11 @@ export default class Sensor {
   static readonly lapLine = 0x008000;
   static readonly vehicle = 0x7f7f7f;
   static readonly radar = 0x000080;
+  static readonly grass = 0x400000;
+  static readonly gravel = 0x200000;
+  static readonly ice = 0x100000;
+  static readonly obstacle = 0x080000;
+  static readonly traffic = 0x040000;
 
   static readonly color = {
     available: toSvgColor(Sensor.available),
@@ -126,6 +162,26 @@ export default class Sensor {
     lapLine: toSvgColor(Sensor.lapLine),
     vehicle: toSvgColor(Sensor.vehicle),
     radar: toSvgColor(Sensor.radar),
+    grass: toSvgColor(Sensor.grass),
+    gravel: toSvgColor(Sensor.gravel),
+    ice: toSvgColor(Sensor.ice),
+    // Obstacles block the cars and the sensors like the edges of the track
+    obstacle: toSvgColor(Sensor.offTrack | Sensor.obstacle),
+    // Other cars too, when they can collide
+    traffic: toSvgColor(Sensor.offTrack | Sensor.traffic),
+  };
+
+  static readonly canvasColor = {
+    available: toCanvasColor(Sensor.available),
+    offTrack: toCanvasColor(Sensor.offTrack),
+    lapLine: toCanvasColor(Sensor.lapLine),
+    vehicle: toCanvasColor(Sensor.vehicle),
+    radar: toCanvasColor(Sensor.radar),
+    grass: toCanvasColor(Sensor.grass),
+    gravel: toCanvasColor(Sensor.gravel),
+    ice: toCanvasColor(Sensor.ice),
+    obstacle: toCanvasColor(Sensor.offTrack | Sensor.obstacle),
+    traffic: toCanvasColor(Sensor.offTrack | Sensor.traffic),
   };
 
   static check(argb: number, ...sensorColors: number[]) {
@@ -135,9 +191,60 @@ export default class Sensor {
     return (argb & color) === color;
   }
 
+  // Surface of the track for a pixel of the mask, if on it
+  static surface(pixel: number): Surface | undefined {
+    if (Sensor.check(pixel, Sensor.offTrack)) {
+      return undefined;
+    } else if (Sensor.check(pixel, Sensor.ice)) {
+      return "ice";
+    } else if (Sensor.check(pixel, Sensor.gravel)) {
+      return "gravel";
+    } else if (Sensor.check(pixel, Sensor.grass)) {
+      return "grass";
+    }
+    return "road";
+  }
+
+  // Moves the sensors of a layout around a little, keeping them within the
+  // limits in the settings. The kinds of sensors and their inputs stay the same
+  static mutate(layout: SensorConfig[], stdev: number): SensorConfig[] {
+    const { minRange, maxRange, maxAngle } = Settings.singleton.sensorLimits;
+    const range = (value: number) =>
+      Math.round(
+        clamp(
+          gaussian(value, (stdev * (maxRange - minRange)) / 10),
+          minRange,
+          maxRange,
+        ),
+      );
+    const angle = (value: number, max = maxAngle) =>
+      clamp(gaussian(value, (stdev * maxAngle) / 10), -max, max);
+
+    return layout.map((config): SensorConfig => {
+      switch (config.kind) {
+        case "heading":
+          return config;
+        case "curvature":
+          return { ...config, range: range(config.range) };
+        case "lidar":
+          return {
+            ...config,
+            range: range(config.range),
+            arc: Math.abs(angle(config.arc, maxAngle * 2)),
+          };
+        default:
+          return {
+            ...config,
+            range: range(config.range),
+            angle: angle(config.angle),
+          };
+      }
+    });
+  }
+
   static async loadAll() {
-    const sensors = Settings.singleton.sensors.map(
-      ({ range, angle }) => new Sensor(range, angle),
+    const sensors = Settings.singleton.sensors.map((config) =>
+      Sensor.create(config),
     );
 
     sensors.forEach((sensor) => Sensor.registry.get().push(sensor));
@@ -145,38 +252,455 @@ export default class Sensor {
     Sensor.registry.signal();
   }
 
+  // Swaps in the sensors from the settings, after they were changed
+  static async reload() {
+    Sensor.registry.get().splice(0);
+    await Sensor.loadAll();
+  }
+
   static readAll(
-    mask: ComposedImage,
-    cx: number,
-    cy: number,
-    ca: number,
+    input: SensorInput,
+    sensors = Sensor.registry.get(),
   ): number[] {
-    // Get the relevant portion of the mask as a buffer
-    const radius = ~~Math.max(
-      ...Sensor.registry.get().map((sensor) => sensor.range),
+    return sensors.flatMap((sensor) => sensor.read(input));
+  }
+
+  // Readings of all the sensors, grouped by sensor
+  static split(
+    readings: number[],
+    sensors = Sensor.registry.get(),
+  ): number[][] {
+    let offset = 0;
+    return sensors.map((sensor) => {
+      offset += sensor.inputs;
+      return readings.slice(offset - sensor.inputs, offset);
+    });
+  }
+}
+
+export interface SensorInput {
+  mask: RasterMask; // Track mask, with the other cars on it in race mode
+  track: Track;
+  x: number;
+  y: number;
+  heading: number; // radians
+  clearance: number; // px around the center, where the car itself is on the mask
+}
+
+type Config<K> = Extract<SensorConfig, { kind?: K }>;
+
+class RaySensor extends Sensor {
+  constructor(public readonly config: Config<"ray">) {
+    super(config);
+  }
+
+  get range() {
+    return this.config.range;
+  }
+
+  get label() {
+    return `Ray ${degrees(this.config.angle)} ${this.range}px`;
+  }
+
+  protected shape(color: string, mask: boolean) {
+    const { range, angle } = this.config;
+    return `<path
+      d="M ${~~range} ${~~range} l ${~~(range * Math.cos(angle))} ${~~(
+      range * Math.sin(angle)
+    )}"
+      stroke="${color}"
+      stroke-width="2px"
+      stroke-linecap="${mask ? "butt" : "round"}"
+      fill="none"
+      ${mask ? 'shape-rendering="crispEdges"' : ""}
+    />`;
+  }
+
+  protected measure(input: SensorInput) {
+    return this.attenuate(castRay(input, this.config.angle, this.range));
+  }
+}
+
+class ConeSensor extends Sensor {
+  constructor(public readonly config: Config<"cone">) {
+    super(config);
+  }
+
+  get range() {
+    return this.config.range;
+  }
+
+  get label() {
+    const { angle, spread } = this.config;
+    return `Cone ${degrees(angle)} ±${degrees(spread / 2)} ${this.range}px`;
+  }
+
+  protected shape(color: string, mask: boolean) {
+    const { range, angle, spread } = this.config;
+    const point = (a: number) =>
+      `${range + range * Math.cos(a)} ${range + range * Math.sin(a)}`;
+    return `<path
+      d="M ${range} ${range} L ${point(
+      angle - spread / 2,
+    )} A ${range} ${range} 0 ${spread > Math.PI ? 1 : 0} 1 ${point(
+      angle + spread / 2,
+    )} Z"
+      fill="${color}"
+      ${mask ? 'shape-rendering="crispEdges"' : 'fill-opacity="0.3"'}
+    />`;
+  }
+
+  // Closest of the rays cast every few degrees across the field of view
+  protected measure(input: SensorInput) {
+    const { angle, spread } = this.config;
+    const rays = Math.max(2, Math.ceil(spread / (Math.PI / 60))) + 1;
+    let closest = this.range;
+    for (let i = 0; i < rays; i++) {
+      const a = angle - spread / 2 + (spread * i) / (rays - 1);
+      closest = Math.min(closest, castRay(input, a, this.range));
+    }
+    return this.attenuate(closest);
+  }
+}
+
+class CurvatureSensor extends Sensor {
+  constructor(public readonly config: Config<"curvature">) {
+    super(config);
+  }
+
+  get range() {
+    return this.config.range;
+  }
+
+  get label() {
+    return `Curvature ${this.range}px ahead`;
+  }
+
+  get signed() {
+    return true;
+  }
+
+  protected shape(color: string, mask: boolean) {
+    const range = this.range;
+    return `<path
+      d="M ${range} ${range} h ${range}"
+      stroke="${color}"
+      stroke-width="2px"
+      ${mask ? 'shape-rendering="crispEdges"' : 'stroke-dasharray="4 4"'}
+      fill="none"
+    />`;
+  }
+
+  // Turn of the road between here and the look-ahead point, a right angle
+  // reading as 1
+  protected measure(input: SensorInput) {
+    const here = roadDirection(input, 0);
+    const ahead = roadDirection(input, this.range);
+    return clamp(normalizeAngle(ahead - here) / (Math.PI / 2), -1, 1);
+  }
+
+  // Bends the look-ahead line the way the road turns
+  render(context: CanvasRenderingContext2D, [reading = 0]: number[] = []) {
+    super.render(context, [1]);
+    const range = this.range;
+    const bend = (reading * Math.PI) / 2;
+    context.save();
+    context.strokeStyle = "green";
+    context.lineWidth = 2;
+    context.beginPath();
+    context.moveTo(0, 0);
+    context.quadraticCurveTo(
+      range / 2,
+      0,
+      (range / 2) * (1 + Math.cos(bend)),
+      (range / 2) * Math.sin(bend),
     );
-    const { buffer, startX, startY, width, height } = mask.getPixels(
-      ~~cx - radius,
-      ~~cy - radius,
-      radius * 2,
-      radius * 2,
+    context.stroke();
+    context.restore();
+  }
+}
+
+class SurfaceSensor extends Sensor {
+  constructor(public readonly config: Config<"surface">) {
+    super(config);
+  }
+
+  get range() {
+    return this.config.range;
+  }
+
+  get label() {
+    return `Surface ${degrees(this.config.angle)} ${this.range}px`;
+  }
+
+  private get probe() {
+    const { range, angle } = this.config;
+    return { x: range * Math.cos(angle), y: range * Math.sin(angle) };
+  }
+
+  protected shape(color: string, mask: boolean) {
+    const { x, y } = this.probe;
+    return `<circle
+      cx="${this.range + x}"
+      cy="${this.range + y}"
+      r="3"
+      ${mask ? `fill="${color}"` : `stroke="${color}" fill="none"`}
+    />`;
+  }
+
+  protected measure(input: SensorInput) {
+    const { x, y } = this.probe;
+    const cos = Math.cos(input.heading);
+    const sin = Math.sin(input.heading);
+    // Probing under the car itself can't see it
+    const mask = this.range < input.clearance ? input.track.raster : input.mask;
+    const surface = Sensor.surface(
+      mask.get(input.x + x * cos - y * sin, input.y + x * sin + y * cos),
     );
+    if (!surface) {
+      return 0;
+    }
+    return surface === "road" ? 1 : Settings.singleton.surfaces[surface].grip;
+  }
 
-    return Sensor.registry
-      .get()
-      .map((sensor) =>
-        sensor.read(
-          buffer,
-          width,
-          height,
-          radius - startX,
-          radius - startY,
-          ca,
-        ),
-      );
+  // Fills in the probe by how much grip it found
+  render(context: CanvasRenderingContext2D, [reading = 1]: number[] = []) {
+    super.render(context, [1]);
+    const { x, y } = this.probe;
+    context.save();
+    context.globalAlpha = clamp(reading, 0, 1);
+    context.fillStyle = "green";
+    context.beginPath();
+    context.arc(x, y, 3, 0, Math.PI * 2);
+    context.fill();
+    context.restore();
+  }
+}
+
+class HeadingSensor extends Sensor {
+  constructor(public readonly config: Config<"heading">) {
+    super(config);
+  }
+
+  get range() {
+    return 20;
+  }
+
+  get label() {
+    return "Heading";
+  }
+
+  get signed() {
+    return true;
+  }
+
+  protected shape(color: string, mask: boolean) {
+    return `<circle
+      cx="${this.range}"
+      cy="${this.range}"
+      r="${this.range - 2}"
+      stroke="${color}"
+      ${mask ? 'shape-rendering="crispEdges"' : ""}
+      fill="none"
+    />`;
+  }
+
+  // Angle of the car away from the direction of the road, half a turn
+  // reading as 1
+  protected measure(input: SensorInput) {
+    return normalizeAngle(input.heading - roadDirection(input, 0)) / Math.PI;
+  }
+
+  // Points to where the road goes
+  render(context: CanvasRenderingContext2D, [reading = 0]: number[] = []) {
+    super.render(context, [1]);
+    const angle = -reading * Math.PI;
+    const length = this.range - 2;
+    context.save();
+    context.strokeStyle = "green";
+    context.lineWidth = 2;
+    context.beginPath();
+    context.moveTo(0, 0);
+    context.lineTo(length * Math.cos(angle), length * Math.sin(angle));
+    context.stroke();
+    context.restore();
+  }
+}
+
+class LidarSensor extends Sensor {
+  private directions: Point[]; // Of each ray, relative to the car
+
+  constructor(public readonly config: Config<"lidar">) {
+    super(config);
+    const { arc, rays } = config;
+    this.directions = Array.from({ length: rays }, (_, i) => {
+      const angle = rays > 1 ? -arc / 2 + (arc * i) / (rays - 1) : 0;
+      return { x: Math.cos(angle), y: Math.sin(angle) };
+    });
+  }
+
+  get range() {
+    return this.config.range;
+  }
+
+  get label() {
+    const { arc, rays } = this.config;
+    return `Lidar ${rays}× ±${degrees(arc / 2)} ${this.range}px`;
+  }
+
+  get inputs() {
+    return this.config.rays;
+  }
+
+  protected shape(color: string, mask: boolean) {
+    const range = this.range;
+    const rays = this.directions
+      .map(({ x, y }) => `M ${range} ${range} l ${range * x} ${range * y}`)
+      .join(" ");
+    return `<path
+      d="${rays}"
+      stroke="${color}"
+      stroke-width="${mask ? 2 : 1}px"
+      fill="none"
+      ${mask ? 'shape-rendering="crispEdges"' : ""}
+    />`;
+  }
+
+  // All the rays are cast together, moving out one pixel at a time
+  protected measure(input: SensorInput) {
+    const { mask, clearance } = input;
+    const cos = Math.cos(input.heading);
+    const sin = Math.sin(input.heading);
+    const steps = this.directions.map(({ x, y }) => ({
+      x: x * cos - y * sin,
+      y: x * sin + y * cos,
+    }));
+    const dists = steps.map(() => 0);
+    const done = steps.map(() => false);
+
+    for (let r = 0, left = steps.length; r < this.range && left > 0; r++) {
+      steps.forEach((step, i) => {
+        if (done[i]) {
+          return;
+        }
+        const row = clamp(~~(input.y + r * step.y), 0, mask.height - 1);
+        const col = clamp(~~(input.x + r * step.x), 0, mask.width - 1);
+        if (blocks(mask.buffer[row * mask.width + col], r, clearance)) {
+          done[i] = true;
+          left--;
+        } else {
+          dists[i] = r;
+        }
+      });
+    }
+    return dists.map((dist) => this.attenuate(dist));
+  }
+
+  // Each ray is drawn up to its reading over the faint fan
+  render(context: CanvasRenderingContext2D, readings: number[] = []) {
+    if (!this.canvas) {
+      return;
+    }
+
+    const all = ~~this.range;
+    context.save();
+    context.globalCompositeOperation = "lighter";
+    context.drawImage(this.canvas, -all, -all, all * 2, all * 2);
+    context.globalCompositeOperation = "source-over";
+    context.strokeStyle = "green";
+    context.beginPath();
+    this.directions.forEach(({ x, y }, i) => {
+      const reach = this.range * (readings[i] ?? 1);
+      context.moveTo(0, 0);
+      context.lineTo(reach * x, reach * y);
+    });
+    context.stroke();
+    context.restore();
   }
 }
 
+// Distance in px along a ray until the edge of the track, ignoring the car
+// casting it
+function castRay(input: SensorInput, angle: number, range: number): number {
+  const { mask, clearance } = input;
+  const dx = Math.cos(angle + input.heading);
+  const dy = Math.sin(angle + input.heading);
+
+  let dist = 0;
+  for (let r = 0; r < range; r++) {
+    const row = clamp(~~(input.y + r * dy), 0, mask.height - 1);
+    const col = clamp(~~(input.x + r * dx), 0, mask.width - 1);
+    if (blocks(mask.buffer[row * mask.width + col], r, clearance)) {
+      break;
+    } else {
+      dist = r;
+    }
+  }
+  return dist;
+}
+
+// Vehicles within the clearance are the car doing the reading
+function blocks(pixel: number, r: number, clearance: number): boolean {
+  return (
+    Sensor.check(pixel, Sensor.offTrack) &&
+    (r >= clearance || !Sensor.check(pixel, Sensor.traffic))
+  );
+}
+
+// Direction of the road at the point of the driving line closest to the car,
+// or some distance further along it
+function roadDirection(input: SensorInput, ahead: number): number {
+  const line = input.track.drivingLine;
+  const count = line.length;
+  if (count < 2) {
+    return input.heading;
+  }
+
+  let idx = 0;
+  let closest = Infinity;
+  line.forEach((p, i) => {
+    const dist = (p.x - input.x) ** 2 + (p.y - input.y) ** 2;
+    if (dist < closest) {
+      closest = dist;
+      idx = i;
+    }
+  });
+  for (let k = 0, along = 0; k < count && along < ahead; k++) {
+    const next = (idx + 1) % count;
+    along += Math.hypot(line[next].x - line[idx].x, line[next].y - line[idx].y);
+    idx = next;
+  }
+
+  const a = line[idx];
+  const b = line[(idx + 1) % count];
+  return Math.atan2(b.y - a.y, b.x - a.x);
+}
+
+function normalizeAngle(angle: number): number {
+  let a = angle % (Math.PI * 2);
+  if (a > Math.PI) {
+    a -= Math.PI * 2;
+  } else if (a < -Math.PI) {
+    a += Math.PI * 2;
+  }
+  return a;
+}
+
+function degrees(angle: number): string {
+  return `${Math.round((angle * 180) / Math.PI)}°`;
+}
+
+// Readings go from 0 when touching an edge to 1 at the end of the range. The
+// inverse and exponential curves tell the close distances apart more finely
+const ATTENUATION: Record<
+  NonNullable<SensorConfig["attenuation"]>,
+  (distance: number) => number
+> = {
+  linear: (distance) => distance,
+  inverse: (distance) => (distance * 5) / (1 + distance * 4),
+  exponential: (distance) => (1 - Math.exp(-distance * 3)) / (1 - Math.exp(-3)),
+};
+
 function toSvgColor(col: number) {
   return "#" + col.toString(16).padStart(6, "0");
 }
@@ -0,0 +1,39 @@
+import { beforeEach, describe, expect, it } from "vitest";
+
+import Settings from "./Settings";
+
+describe("Settings", () => {
+  beforeEach(() => {
+    Settings.reset();
+  });
+
+  it("replaces the sensors with a shorter list", () => {
+    const settings = Settings.singleton;
+    settings.set({
+      sensors: [{ kind: "lidar", range: 100, arc: Math.PI, rays: 16 }],
+    });
+    expect(settings.sensors).toHaveLength(1);
+    expect(settings.sensorInputs()).toBe(16);
+  });
+
+  it("loads a saved shorter list of sensors", () => {
+    const saved = JSON.stringify({
+      sensors: [{ kind: "ray", range: 80, angle: 0 }],
+    });
+    const settings = Settings.reset(JSON.parse(saved));
+    expect(settings.sensors).toEqual([{ kind: "ray", range: 80, angle: 0 }]);
+    expect(settings.sensorInputs()).toBe(1);
+  });
+
+  it("keeps the defaults of nested settings that aren't given", () => {
+    const settings = Settings.singleton;
+    settings.set({ sensorLimits: { ...settings.sensorLimits, maxRange: 150 } });
+    settings.load({ numSimulations: { globalBest: 2 } as any });
+    expect(settings.sensorLimits.maxRange).toBe(150);
+    expect(settings.numSimulations).toEqual({
+      globalBest: 2,
+      trackBest: 4,
+      trackRandom: 2,
+    });
+  });
+});
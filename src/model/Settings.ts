@@ -1,7 +1,9 @@
 import clamp from "../utils/clamp";
 import database from "../utils/database";
+import random from "../utils/random";
 import genRegistry from "../utils/registry";
 import Car, { Score } from "./Car";
+import { FitnessWeights } from "./Fitness";
 import Network from "./Network";
 
 export default class Settings {
@@ -26,6 +28,19 @@ export default class Settings {
   globalTimeDilation = 1.0;
   globalPaused = false;
 
+  turboMode = false;
+  turboStepSecs = 0.05; // Fixed simulation step in turbo mode
+  turboBatchMs = 50; // Time spent simulating on each tick in turbo mode
+  turboSnapshotSecs = 2; // Time between renders in turbo mode
+
+  useWorkers = false;
+  maxWorkers = 8;
+
+  offlineProgress = true;
+  offlineSecsPerIteration = 60; // Time away that is worth one iteration
+  maxOfflineIterations = 100;
+  maxOfflineMs = 5000; // Time spent catching up when loading
+
   /// Execution information
 
   lastReset = Date.now();
@@ -55,6 +70,7 @@ export default class Settings {
   trackHeight = 600; // px
 
   currentTrack = "Basic";
+  renderRacingLine = false;
 
   autoAdvance = false;
 
@@ -68,23 +84,102 @@ export default class Settings {
   maxAcceleration = 25; // px/s^2
   maxSteering = Math.PI / 2; // rad/s
 
+  allowReverse = false;
+  maxReverseSpeed = 25; // px/s
+
+  physicsModel: "arcade" | "drift" = "arcade";
+  tireGrip = 120; // px/s^2, sideways acceleration before sliding
+  oversteer = 0.5; // Extra steering at top speed
+  brakingGrip = 0.5; // Fraction of the grip that can be used to brake
+
+  // Multipliers of the vehicle performance on each kind of track surface
+  surfaces = {
+    grass: { friction: 5, maxSpeed: 0.5, grip: 0.6 },
+    gravel: { friction: 10, maxSpeed: 0.3, grip: 0.4 },
+    ice: { friction: 0.5, maxSpeed: 1, grip: 0.1 },
+  };
+
+  vehicleProfiles: Record<string, VehicleProfile> = {
+    compact: {
+      name: "compact",
+      label: "Nimble Compact",
+      width: 16,
+      height: 12,
+      maxSpeed: 90,
+      maxAcceleration: 35,
+      maxSteering: (Math.PI * 2) / 3,
+      friction: 0.1,
+      tireGrip: 140,
+    },
+    sports: {
+      name: "sports",
+      label: "Fast but Wide",
+      width: 22,
+      height: 18,
+      maxSpeed: 140,
+      maxAcceleration: 35,
+      maxSteering: Math.PI / 2,
+      friction: 0.08,
+      tireGrip: 130,
+    },
+    truck: {
+      name: "truck",
+      label: "Heavy Truck",
+      width: 32,
+      height: 18,
+      maxSpeed: 70,
+      maxAcceleration: 12,
+      maxSteering: Math.PI / 3,
+      friction: 0.15,
+      tireGrip: 90,
+    },
+  };
+  populationVehicle = "standard"; // Profile of the AI cars
+  manualVehicle = "standard"; // Profile of the manually controlled car
+
   manualControl = false;
 
+  trafficCars = 0; // Scripted cars driving around with the AI cars
+  trafficSpeed = 0.5; // Fraction of the top speed of their vehicle
+  trafficLine: "middle" | "racing" = "middle"; // Line followed by the traffic
+
+  checkpointTimeoutSecs = 5; // Time allowed to reach the next checkpoint
+
+  raceRules = {
+    lapsToWin: 3,
+    maxRunSecs: 300, // Runs are ended after this long, 0 for no limit
+    minProgressRate: 0.5, // Default fitness score needed per second of racing
+    gracePeriodSecs: 3, // Time before a car can be ended for lack of progress
+  };
+
+  collisionMode: "raster" | "vector" = "raster";
+  carCollisions = false; // Race mode, cars crash into each other and block the sensors
+  nearestCarInput = false; // Extra network input with the distance to the closest car
+  nearestCarRange = 100; // px, cars further away read as 1
+
   /// Sensors configuration
 
   renderSensors = false;
 
-  sensors = [
-    { range: 100, angle: 0 },
-    { range: 100, angle: Math.PI / 6 },
-    { range: 100, angle: -Math.PI / 6 },
-    { range: 100, angle: Math.PI / 3 },
-    { range: 100, angle: -Math.PI / 3 },
+  sensors: SensorConfig[] = [
+    { kind: "ray", range: 100, angle: 0 },
+    { kind: "ray", range: 100, angle: Math.PI / 6 },
+    { kind: "ray", range: 100, angle: -Math.PI / 6 },
+    { kind: "ray", range: 100, angle: Math.PI / 3 },
+    { kind: "ray", range: 100, angle: -Math.PI / 3 },
   ];
 
+  evolveSensors = false; // Each car mutates its own sensor angles and ranges along with its network
+  sensorLimits = {
+    minRange: 30, // px
+    maxRange: 200, // px
+    maxAngle: Math.PI / 2, // radians, to either side of the car
+  };
+
   /// Neural network configuration
 
   numIterations = 0;
+  randomSeed = random.newSeed();
 
   numSimulations = {
     globalBest: 4,
@@ -92,15 +187,50 @@ export default class Settings {
     trackRandom: 2,
   };
 
-  sotaScore: Record<string, Score> = {}; // Track name => score
+  fitnessFunction = "default"; // See Fitness.registry
+  fitnessWeights: FitnessWeights = {
+    distance: 1,
+    time: -1,
+    laps: 100,
+    progress: 0,
+    steering: 0,
+  };
+
+  sotaScore: Record<string, Score> = {}; // Track name => score, tagged with the fitness function
   sotaNet = Network.init(
-    this.sensors.length + 4, // in: sensors + [accel, steer, speed, angle]
+    this.sensorInputs() + 4, // in: sensors + [accel, steer, speed, angle]
     2, // out: [accel, steer]
     [], // init with no hidden layers
   ).config;
+  sotaSensors: SensorConfig[] = []; // Evolved layout of the sotaNet, empty when it uses the sensors above
 
   /////////////
 
+  // The standard vehicle is the car configuration above
+  vehicleProfile(name: string): VehicleProfile {
+    return (
+      this.vehicleProfiles[name] ?? {
+        name: "standard",
+        label: "Standard",
+        width: this.carWidth,
+        height: this.carHeight,
+        maxSpeed: this.maxSpeed,
+        maxAcceleration: this.maxAcceleration,
+        maxSteering: this.maxSteering,
+        friction: this.friction,
+        tireGrip: this.tireGrip,
+      }
+    );
+  }
+
+  // Number of network inputs taken up by the sensors
+  sensorInputs(): number {
+    return this.sensors.reduce(
+      (count, sensor) => count + (sensor.kind === "lidar" ? sensor.rays : 1),
+      0,
+    );
+  }
+
   static isDebug(): boolean {
     return window.location.href.toLowerCase().includes("debug");
   }
@@ -168,6 +298,9 @@ export default class Settings {
     for (k in settings) {
       if (settings[k] == undefined || settings[k] == null) {
         continue;
+      } else if (Array.isArray(settings[k])) {
+        // Lists are replaced as a whole, so they can get shorter too
+        (this as any)[k] = [...(settings[k] as any[])];
       } else if (
         typeof this[k] === "object" &&
         typeof settings[k] === "object"
@@ -223,10 +356,13 @@ export default class Settings {
       const tick = clamp(dt, this.minUpdateSecs, this.maxTickSecs);
       // tps[1]++;
       dt -= tick;
-      if (source === "tick") {
+      if (source === "tick" && !this.turboMode) {
         Car.tickAll(this.globalPaused ? 0 : tick * tickScale);
       }
     }
+    if (source === "tick" && this.turboMode && !this.globalPaused) {
+      Car.tickTurbo(this.turboBatchMs, this.turboStepSecs);
+    }
 
     // Update execution status
     this.execution[source] = {
@@ -254,10 +390,10 @@ export default class Settings {
       onSave(this);
     }
 
-    if (
-      onRender &&
-      this.lastTick - this.lastRender >= 1000.0 / this.rendersPerSec
-    ) {
+    const renderInterval = this.turboMode
+      ? this.turboSnapshotSecs * 1000
+      : 1000.0 / this.rendersPerSec;
+    if (onRender && this.lastTick - this.lastRender >= renderInterval) {
       this.execution[source].fps =
         (this.execution[source].fps || 0) * 0.8 +
         (1000.0 / (this.lastTick - this.lastRender)) * 0.2;
@@ -268,3 +404,41 @@ export default class Settings {
     return this.execution[source].lastResult;
   }
 }
+
+export interface VehicleProfile {
+  name: string;
+  label: string;
+  width: number; // px, along the heading
+  height: number; // px
+  maxSpeed: number; // px/s
+  maxAcceleration: number; // px/s^2
+  maxSteering: number; // rad/s
+  friction: number; // %/s
+  tireGrip: number; // px/s^2
+}
+
+// How the readings of any kind of sensor are degraded
+interface SensorResponse {
+  noise?: number; // Standard deviation of the gaussian noise on the readings
+  quantization?: number; // Number of distinct readings, 0 for continuous
+  attenuation?: "linear" | "inverse" | "exponential"; // Reading by distance
+  dropout?: number; // 0-1, chance of a reading failing and returning 0
+}
+
+export type SensorConfig = SensorResponse &
+  (
+    | // Distance to the edge of the track along a ray. The default kind
+    { kind?: "ray"; range: number; angle: number }
+    // Shortest distance over a field of view, spread radians wide
+    | { kind: "cone"; range: number; angle: number; spread: number }
+    // Direction of the road some distance ahead, -1 left to +1 right
+    | { kind: "curvature"; range: number }
+    // Grip of the surface at a point ahead, 0 off track to 1 on the road
+    | { kind: "surface"; range: number; angle: number }
+    // Heading of the car compared to the road, -1 to +1 when turned around
+    | { kind: "heading" }
+    // Evenly spread rays across an arc centered ahead, one input each
+    | { kind: "lidar"; range: number; arc: number; rays: number }
+  );
+
+export type Surface = "road" | keyof Settings["surfaces"];
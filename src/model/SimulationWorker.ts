@@ -0,0 +1,89 @@
+import Car from "./Car";
+import Network from "./Network";
+import Sensor from "./Sensor";
+import Settings from "./Settings";
+import Track from "./Track";
+import { WorkerRequest, WorkerResponse } from "./WorkerPool";
+
+// Entry point of the simulation workers. Runs the physics, sensors and
+// networks for a share of the cars, posting their state back after each tick
+
+let generation = 0;
+let queue = Promise.resolve();
+
+self.addEventListener("message", (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  queue = queue
+    .then(() => handle(request))
+    .catch((err) => {
+      // The pool takes the cars back, instead of waiting on this worker
+      console.error("Error in simulation worker", err);
+      const response: WorkerResponse = {
+        type: "error",
+        generation: request.generation,
+        message: String(err),
+      };
+      self.postMessage(response);
+    });
+});
+
+async function handle(request: WorkerRequest) {
+  switch (request.type) {
+    case "setup":
+      return setup(request);
+    case "tick":
+      return tick(request.generation, request.dt);
+  }
+}
+
+async function setup(request: Extract<WorkerRequest, { type: "setup" }>) {
+  generation = request.generation;
+
+  // Highscores are kept track of on the main thread
+  Settings.reset(JSON.parse(request.settings));
+  Car.recordHighscores = false;
+
+  await Sensor.reload();
+  if (Object.keys(Track.registry.get()).length === 0) {
+    await Track.loadAll();
+  }
+
+  const track = Track.registry.get()[request.track];
+  track.resetObstacles();
+  const cars = Car.registry.get();
+  Object.keys(cars).forEach((name) => delete cars[name]);
+  // The state picks up where the main thread left off, including the
+  // sequence of the sensor noise
+  request.cars.forEach(({ name, color, net, layout, state }) => {
+    const car = new Car(name, color);
+    car.net = new Network(net);
+    car.layout = layout?.map((config) => Sensor.create(config)) ?? null;
+    car.placeOnTrack(track);
+    car.readState(state, 0);
+  });
+}
+
+function tick(requestGeneration: number, dt: number) {
+  const cars = Object.values(Car.registry.get());
+  if (requestGeneration === generation) {
+    const maxTick = Settings.singleton.maxTickSecs;
+    for (let left = dt; left > 0; left -= maxTick) {
+      const step = Math.min(left, maxTick);
+      cars[0]?.track?.tick(step);
+      cars.forEach((car) => car.tick(step));
+    }
+  }
+
+  const stride = Car.stateSize + Settings.singleton.sensorInputs();
+  const state = new Float64Array(cars.length * stride);
+  cars.forEach((car, idx) => car.writeState(state, idx * stride));
+
+  const response: WorkerResponse = {
+    type: "state",
+    generation: requestGeneration,
+    stride,
+    state,
+    events: Car.events.splice(0),
+  };
+  self.postMessage(response, { transfer: [state.buffer] });
+}
@@ -1,12 +1,33 @@
 import composeImage, { ComposedImage } from "../utils/composeImage";
+import {
+  arcLengths,
+  isInPolygon,
+  Point,
+  pointAlong,
+  segmentDistance,
+} from "../utils/geometry";
+import headless from "../utils/headless";
+import { RasterMask } from "../utils/rasterMask";
 import genRegistry from "../utils/registry";
+import svgPath from "../utils/svgPath";
+import Obstacle, { ObstacleConfig } from "./Obstacle";
+import RacingLine from "./RacingLine";
 import Sensor from "./Sensor";
-import Settings from "./Settings";
+import Settings, { Surface, VehicleProfile } from "./Settings";
 
 export default abstract class Track {
   static registry = genRegistry<Record<string, Track>>({});
 
   private renderImage: ComposedImage | undefined = undefined;
+  private rasterMask: RasterMask | undefined = undefined;
+  private staticMask: RasterMask | undefined = undefined;
+  private obstacleList: Obstacle[] | undefined = undefined;
+  public obstacleTime = 0; // s, since the obstacles started moving
+  private polylines: Point[][] | undefined = undefined;
+  private generatedCheckpoints: Point[] | undefined = undefined;
+  private generatedDrivingLine: Point[] | undefined = undefined;
+  private generatedRacingLines = new Map<number, RacingLine>(); // By car height
+  private zonePolylines: Point[][][] | undefined = undefined;
 
   readonly width = Settings.singleton.trackWidth;
   readonly height = Settings.singleton.trackHeight;
@@ -19,6 +40,28 @@ export default abstract class Track {
   abstract get startingPoint(): { x: number; y: number };
   abstract get startingDirection(): { x: number; y: number };
 
+  // Width of the grass on each side of the road, before hitting a wall
+  get verge(): number {
+    return 0;
+  }
+
+  // Patches of other surfaces, around or over the road
+  get zones(): SurfaceZone[] {
+    return [];
+  }
+
+  // Cones, barriers and moving blockers placed on the road
+  get obstacleLayout(): ObstacleConfig[] {
+    return [];
+  }
+
+  get obstacles(): Obstacle[] {
+    this.obstacleList ??= this.obstacleLayout.map(
+      (config) => new Obstacle(config),
+    );
+    return this.obstacleList;
+  }
+
   get startingAngle(): number {
     return Math.atan2(this.startingDirection.y, this.startingDirection.x);
   }
@@ -38,6 +81,22 @@ export default abstract class Track {
         fill="${Sensor.color.offTrack}"
         shape-rendering="crispEdges"
       />`,
+      // Verge mask
+      this.verge > 0
+        ? this.path.map(
+            (path) =>
+              `<path
+                d="${path}"
+                stroke="${Sensor.color.grass}"
+                stroke-width="${this.roadThickness + this.verge * 2}px"
+                stroke-linecap="round"
+                stroke-linejoin="round"
+                fill="none"
+                shape-rendering="crispEdges"
+              />`,
+          )
+        : [],
+      this.zones.filter((zone) => !zone.overRoad).map((zone) => zoneMask(zone)),
       // Road mask
       this.path.map(
         (path) =>
@@ -51,6 +110,13 @@ export default abstract class Track {
             shape-rendering="crispEdges"
           />`,
       ),
+      this.zones.filter((zone) => zone.overRoad).map((zone) => zoneMask(zone)),
+      // Obstacles that stay in place
+      this.obstacles
+        .filter((obstacle) => !obstacle.moving)
+        .map((obstacle) =>
+          obstacle.svg(Sensor.color.obstacle, 'shape-rendering="crispEdges"'),
+        ),
       // Starting line
       `<path
         d="M ${this.startingPoint.x} ${this.startingPoint.y} l ${
@@ -66,6 +132,286 @@ export default abstract class Track {
     ].join("");
   }
 
+  // Same contents as the mask, rasterized without needing a DOM. Moving
+  // obstacles are drawn where they are at the current time
+  get raster(): RasterMask {
+    if (this.rasterMask) {
+      return this.rasterMask;
+    }
+
+    const moving = this.obstacles.filter((obstacle) => obstacle.moving);
+    const raster =
+      moving.length > 0 ? this.staticRaster.clone() : this.staticRaster;
+    moving.forEach((obstacle) =>
+      raster.fillPolygon(obstacle.polygon, Sensor.canvasColor.obstacle),
+    );
+
+    this.rasterMask = raster;
+    return raster;
+  }
+
+  private get staticRaster(): RasterMask {
+    if (this.staticMask) {
+      return this.staticMask;
+    }
+
+    const raster = new RasterMask(
+      this.width,
+      this.height,
+      Sensor.canvasColor.offTrack,
+    );
+    if (this.verge > 0) {
+      this.centerline.forEach((polyline) =>
+        raster.strokePolyline(
+          polyline,
+          this.roadThickness + this.verge * 2,
+          Sensor.canvasColor.grass,
+        ),
+      );
+    }
+    const strokeZones = (overRoad: boolean) =>
+      this.zones.forEach((zone, idx) => {
+        if (!zone.overRoad === !overRoad) {
+          this.zoneCenterlines[idx].forEach((polyline) =>
+            raster.strokePolyline(
+              polyline,
+              zone.thickness,
+              Sensor.canvasColor[zone.surface],
+            ),
+          );
+        }
+      });
+    strokeZones(false);
+    this.centerline.forEach((polyline) =>
+      raster.strokePolyline(
+        polyline,
+        this.roadThickness,
+        Sensor.canvasColor.available,
+      ),
+    );
+    strokeZones(true);
+    this.obstacles
+      .filter((obstacle) => !obstacle.moving)
+      .forEach((obstacle) =>
+        raster.fillPolygon(obstacle.polygon, Sensor.canvasColor.obstacle),
+      );
+    raster.fillPolygon(this.startingLine, Sensor.canvasColor.lapLine);
+
+    this.staticMask = raster;
+    return raster;
+  }
+
+  // Moves the obstacles along with the simulation
+  tick(dt: number) {
+    this.moveObstacles(this.obstacleTime + dt);
+  }
+
+  // Obstacles start over with every iteration
+  resetObstacles() {
+    this.moveObstacles(0);
+  }
+
+  private moveObstacles(time: number) {
+    this.obstacleTime = time;
+    const moving = this.obstacles.filter((obstacle) => obstacle.moving);
+    if (moving.length === 0) {
+      return;
+    }
+
+    // Erase the obstacles from the raster before drawing them again
+    const raster = this.raster;
+    moving.forEach((obstacle) =>
+      raster.restorePolygon(this.staticRaster, obstacle.polygon),
+    );
+    moving.forEach((obstacle) => obstacle.moveTo(time));
+    moving.forEach((obstacle) =>
+      raster.fillPolygon(obstacle.polygon, Sensor.canvasColor.obstacle),
+    );
+  }
+
+  // Whether the polygon touches any of the obstacles, using their geometry
+  hitsObstacle(points: Point[]): boolean {
+    return this.obstacles.some((obstacle) => {
+      const polygon = obstacle.polygon;
+      return (
+        points.some((p) => isInPolygon(p, polygon)) ||
+        polygon.some((p) => isInPolygon(p, points))
+      );
+    });
+  }
+
+  // The road path flattened into polylines
+  get centerline(): Point[][] {
+    this.polylines ??= this.path.flatMap((path) => svgPath(path));
+    return this.polylines;
+  }
+
+  // The surface zone paths flattened into polylines, in the order of the zones
+  get zoneCenterlines(): Point[][][] {
+    this.zonePolylines ??= this.zones.map((zone) => svgPath(zone.path));
+    return this.zonePolylines;
+  }
+
+  // Surface at the given point of the track, as drawn on the raster
+  surfaceAt(x: number, y: number): Surface | undefined {
+    return Sensor.surface(this.raster.get(x, y));
+  }
+
+  // Ordered points along the road that cars pass through on every lap,
+  // starting at the starting line. Tracks can also author their own
+  get checkpoints(): Point[] {
+    this.generatedCheckpoints ??= this.sampleRoad(this.roadThickness);
+    return this.generatedCheckpoints;
+  }
+
+  // Closely spaced points along the middle of the road, starting at the
+  // starting line and going in the driving direction
+  get drivingLine(): Point[] {
+    this.generatedDrivingLine ??= this.sampleRoad(10);
+    return this.generatedDrivingLine;
+  }
+
+  // Smoothest way around the track, keeping the vehicle clear of the edges
+  racingLine(vehicle: VehicleProfile): RacingLine {
+    let line = this.generatedRacingLines.get(vehicle.height);
+    if (!line) {
+      line = new RacingLine(
+        this.drivingLine,
+        Math.max(0, this.roadThickness / 2 - vehicle.height),
+      );
+      this.generatedRacingLines.set(vehicle.height, line);
+    }
+    return line;
+  }
+
+  private sampleRoad(spacing: number): Point[] {
+    const polyline = this.centerline.reduce(
+      (longest, p) => (p.length > longest.length ? p : longest),
+      [],
+    );
+    if (polyline.length < 2) {
+      return [];
+    }
+
+    // Distance along the road at each point of the polyline
+    const arcs = arcLengths(polyline);
+    const length = arcs[arcs.length - 1];
+
+    // Find where the starting point is on the road, and which way to go
+    let start = 0;
+    let forward = true;
+    let closest = Infinity;
+    for (let i = 0; i < polyline.length - 1; i++) {
+      const a = polyline[i];
+      const b = polyline[i + 1];
+      const dist = segmentDistance(this.startingPoint, a, b);
+      const len = arcs[i + 1] - arcs[i];
+      if (dist < closest && len > 0) {
+        const t =
+          ((this.startingPoint.x - a.x) * (b.x - a.x) +
+            (this.startingPoint.y - a.y) * (b.y - a.y)) /
+          len ** 2;
+        closest = dist;
+        start = arcs[i] + Math.max(0, Math.min(1, t)) * len;
+        forward =
+          (b.x - a.x) * this.startingDirection.x +
+            (b.y - a.y) * this.startingDirection.y >=
+          0;
+      }
+    }
+
+    const count = Math.max(4, Math.round(length / spacing));
+    return Array.from({ length: count }, (_, k) => {
+      const arc = start + ((forward ? k : -k) * length) / count;
+      return pointAlong(polyline, arcs, ((arc % length) + length) % length);
+    });
+  }
+
+  // Whether all the points are on the road, its verges or any of the surface
+  // zones, using the path geometry directly
+  isOnRoad(points: Point[]): boolean {
+    const zones = this.zones.flatMap((zone, idx) =>
+      this.zoneCenterlines[idx].map((polyline) => ({
+        polyline,
+        radius: zone.thickness / 2,
+      })),
+    );
+    const onZone = (p: Point) =>
+      zones.some(({ polyline, radius }) =>
+        polyline.some(
+          (a, i) =>
+            i < polyline.length - 1 &&
+            segmentDistance(p, a, polyline[i + 1]) <= radius,
+        ),
+      );
+
+    const radius = this.roadThickness / 2 + this.verge;
+    const minX = Math.min(...points.map((p) => p.x)) - radius;
+    const minY = Math.min(...points.map((p) => p.y)) - radius;
+    const maxX = Math.max(...points.map((p) => p.x)) + radius;
+    const maxY = Math.max(...points.map((p) => p.y)) + radius;
+
+    // Only the parts of the road near the points matter
+    const segments = this.centerline.flatMap((polyline) =>
+      polyline
+        .slice(0, -1)
+        .map((a, i) => [a, polyline[i + 1]])
+        .filter(
+          ([a, b]) =>
+            Math.max(a.x, b.x) >= minX &&
+            Math.min(a.x, b.x) <= maxX &&
+            Math.max(a.y, b.y) >= minY &&
+            Math.min(a.y, b.y) <= maxY,
+        ),
+    );
+    return points.every(
+      (p) =>
+        segments.some(([a, b]) => segmentDistance(p, a, b) <= radius) ||
+        onZone(p),
+    );
+  }
+
+  // Whether moving between the two points crosses the starting line.
+  // Returns 1 when crossing forward, -1 when crossing backwards, 0 otherwise
+  crossesStartingLine(from: Point, to: Point): number {
+    const { x, y } = this.startingPoint;
+    const len = Math.hypot(this.startingDirection.x, this.startingDirection.y);
+    const dx = this.startingDirection.x / len;
+    const dy = this.startingDirection.y / len;
+
+    // Signed distances past the line, along the starting direction
+    const d1 = (from.x - x) * dx + (from.y - y) * dy;
+    const d2 = (to.x - x) * dx + (to.y - y) * dy;
+    const direction = d1 < 0 && d2 >= 0 ? 1 : d1 >= 0 && d2 < 0 ? -1 : 0;
+    if (direction === 0) {
+      return 0;
+    }
+
+    // Where it crosses has to be on the road
+    const t = d1 / (d1 - d2);
+    const cx = from.x + (to.x - from.x) * t - x;
+    const cy = from.y + (to.y - from.y) * t - y;
+    return Math.abs(cx * -dy + cy * dx) <= this.roadThickness / 2
+      ? direction
+      : 0;
+  }
+
+  // Corners of the starting line as it is drawn on the mask
+  get startingLine(): Point[] {
+    const { x, y } = this.startingPoint;
+    const dx = Math.sign(this.startingDirection.x) * this.laneMarkingThickness;
+    const dy = Math.sign(this.startingDirection.y) * this.laneMarkingThickness;
+    const len = Math.hypot(dx, dy) || 1;
+    const nx = (-dy / len) * (this.roadThickness / 2);
+    const ny = (dx / len) * (this.roadThickness / 2);
+    return [
+      { x: x + nx, y: y + ny },
+      { x: x + dx + nx, y: y + dy + ny },
+      { x: x + dx - nx, y: y + dy - ny },
+      { x: x - nx, y: y - ny },
+    ];
+  }
+
   get image(): string {
     return [
       // Viewbox
@@ -80,6 +426,23 @@ export default abstract class Track {
         height="${this.height}"
         fill="lightgreen"
       />`,
+      // Verge and surface zones beside the road
+      this.verge > 0
+        ? this.path.map(
+            (path) =>
+              `<path
+                d="${path}"
+                stroke="${SURFACE_COLORS.grass}"
+                stroke-width="${this.roadThickness + this.verge * 2}px"
+                stroke-linecap="round"
+                stroke-linejoin="round"
+                fill="none"
+              />`,
+          )
+        : [],
+      this.zones
+        .filter((zone) => !zone.overRoad)
+        .map((zone) => zoneImage(zone)),
       // Outside lane marking
       this.path.map(
         (path) =>
@@ -106,6 +469,8 @@ export default abstract class Track {
             fill="none"
           />`,
       ),
+      // Surface zones over the road
+      this.zones.filter((zone) => zone.overRoad).map((zone) => zoneImage(zone)),
       // Inside lane marking
       this.path.map(
         (path) =>
@@ -122,6 +487,10 @@ export default abstract class Track {
             fill="none"
           />`,
       ),
+      // Obstacles that stay in place, moving ones are drawn on every render
+      this.obstacles
+        .filter((obstacle) => !obstacle.moving)
+        .map((obstacle) => obstacle.svg(obstacle.color)),
       // Starting line
       `<path
         d="M ${this.startingPoint.x} ${this.startingPoint.y} l ${
@@ -142,6 +511,9 @@ export default abstract class Track {
   }
 
   async fetchImageData() {
+    if (headless()) {
+      return this.renderImage;
+    }
     this.renderImage = await composeImage([this.image], {
       reuse: this.renderImage,
       clear: true,
@@ -157,6 +529,9 @@ export default abstract class Track {
     }
 
     context.drawImage(this.canvas, 0, 0);
+    this.obstacles
+      .filter((obstacle) => obstacle.moving)
+      .forEach((obstacle) => obstacle.render(context));
   }
 
   static async loadAll() {
@@ -165,6 +540,10 @@ export default abstract class Track {
       new AdvancedTrack("Advanced"),
       new OvalTrack("Oval"),
       new CurvyTrack("Curvy"),
+      new SlalomTrack("Slalom"),
+      new RallyTrack("Rally"),
+      new IcyOvalTrack("Icy Oval"),
+      new CountryTrack("Country"),
     ];
     tracks.forEach((track) => {
       Track.registry.get()[track.name] = track;
@@ -178,6 +557,42 @@ export default abstract class Track {
   }
 }
 
+export interface SurfaceZone {
+  surface: Exclude<Surface, "road">;
+  path: string; // Stroked like the road
+  thickness: number; // px
+  overRoad?: boolean; // Covers the road instead of only its surroundings
+}
+
+const SURFACE_COLORS = {
+  grass: "olivedrab",
+  gravel: "burlywood",
+  ice: "lightcyan",
+};
+
+function zoneMask(zone: SurfaceZone): string {
+  return `<path
+    d="${zone.path}"
+    stroke="${Sensor.color[zone.surface]}"
+    stroke-width="${zone.thickness}px"
+    stroke-linecap="round"
+    stroke-linejoin="round"
+    fill="none"
+    shape-rendering="crispEdges"
+  />`;
+}
+
+function zoneImage(zone: SurfaceZone): string {
+  return `<path
+    d="${zone.path}"
+    stroke="${SURFACE_COLORS[zone.surface]}"
+    stroke-width="${zone.thickness}px"
+    stroke-linecap="round"
+    stroke-linejoin="round"
+    fill="none"
+  />`;
+}
+
 class BasicTrack extends Track {
   get path(): string[] {
     return ["M 730 70 h -360 v 200 h -300 v 260 h 400 l 260 -260 v -160 Z"];
@@ -254,3 +669,47 @@ class CurvyTrack extends Track {
     return { x: -1, y: 0 };
   }
 }
+
+class SlalomTrack extends BasicTrack {
+  get obstacleLayout(): ObstacleConfig[] {
+    return [
+      { kind: "cone", position: { x: 260, y: 510 } },
+      { kind: "cone", position: { x: 340, y: 550 } },
+      { kind: "cone", position: { x: 420, y: 510 } },
+      { kind: "barrier", position: { x: 560, y: 50 }, angle: 0, length: 40 },
+      { kind: "barrier", position: { x: 730, y: 200 }, angle: 0, length: 30 },
+      { kind: "blocker", path: "M 370 100 V 240", speed: 15 },
+      { kind: "blocker", path: "M 100 270 H 340", speed: 20 },
+    ];
+  }
+}
+
+// The surface zones only show up on tracks of their own, so the scores on the
+// other tracks stay comparable
+class RallyTrack extends AdvancedTrack {
+  get verge() {
+    return 8;
+  }
+  get zones(): SurfaceZone[] {
+    return [{ surface: "gravel", path: "M 50 80 l -20 -20", thickness: 60 }];
+  }
+}
+
+class IcyOvalTrack extends OvalTrack {
+  get zones(): SurfaceZone[] {
+    return [
+      {
+        surface: "ice",
+        path: "M 340 498 h 120",
+        thickness: 60,
+        overRoad: true,
+      },
+    ];
+  }
+}
+
+class CountryTrack extends CurvyTrack {
+  get verge() {
+    return 10;
+  }
+}
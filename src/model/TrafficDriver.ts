@@ -0,0 +1,95 @@
+import clamp from "../utils/clamp";
+import { Point } from "../utils/geometry";
+import Car from "./Car";
+
+// Scripted controller for the traffic cars, instead of a network. Steers
+// towards a point further along the route and holds a steady speed
+export default class TrafficDriver {
+  private index = 0; // Point of the route closest to the car
+
+  // Length of each segment of the route, and the radius of the bend starting
+  // there, measured over a car's turning distance
+  private lengths: number[] = [];
+  private radius: number[] = [];
+
+  constructor(
+    public readonly route: Point[], // Closed loop in the driving direction
+    public readonly speed: number, // px/s
+  ) {
+    const count = route.length;
+    const heading = route.map((a, i) => {
+      const b = route[(i + 1) % count];
+      this.lengths.push(Math.hypot(b.x - a.x, b.y - a.y));
+      return Math.atan2(b.y - a.y, b.x - a.x);
+    });
+    this.radius = route.map((_, i) => {
+      let along = 0;
+      let j = i;
+      for (let k = 0; k < count && along < TURN_SPAN; k++) {
+        along += this.lengths[j];
+        j = (j + 1) % count;
+      }
+      let bend = Math.abs(heading[j] - heading[i]);
+      if (bend > Math.PI) {
+        bend = Math.PI * 2 - bend;
+      }
+      return bend > 0 ? along / bend : Infinity;
+    });
+  }
+
+  drive(car: Car) {
+    const route = this.route;
+    const count = route.length;
+    if (count < 2) {
+      car.acceleration = 0;
+      car.steering = 0;
+      return;
+    }
+
+    // Follow the car along the route, looking a few points ahead in case it
+    // cut a corner
+    const dist = (p: Point) =>
+      Math.hypot(p.x - car.position.x, p.y - car.position.y);
+    const start = this.index;
+    for (let i = 1; i < Math.min(count, 10); i++) {
+      const next = (start + i) % count;
+      if (dist(route[next]) < dist(route[this.index])) {
+        this.index = next;
+      }
+    }
+
+    // Aim further ahead the faster the car goes
+    const lookahead = Math.max(car.width * 2, Math.abs(car.speed) / 2);
+    let target = this.index;
+    for (let i = 0; i < count && dist(route[target]) < lookahead; i++) {
+      target = (target + 1) % count;
+    }
+
+    let turn =
+      Math.atan2(
+        route[target].y - car.position.y,
+        route[target].x - car.position.x,
+      ) - car.angle;
+    if (turn > Math.PI) {
+      turn -= Math.PI * 2;
+    } else if (turn < -Math.PI) {
+      turn += Math.PI * 2;
+    }
+
+    // Slow down ahead of the bends, to a speed the car can turn at
+    const vehicle = car.handling;
+    const braking = car.speed ** 2 / (2 * vehicle.maxAcceleration);
+    let speed = this.speed;
+    let along = 0;
+    for (let i = 0; i < count && along < braking + lookahead; i++) {
+      const idx = (this.index + i) % count;
+      speed = Math.min(speed, vehicle.maxSteering * this.radius[idx]);
+      along += this.lengths[idx];
+    }
+
+    car.steering = clamp(turn * 2, -1, 1);
+    car.acceleration = clamp((speed - car.speed) / 10, -1, 1);
+  }
+}
+
+const TURN_SPAN = 50; // px
@@ -0,0 +1,211 @@
+import clamp from "../utils/clamp";
+import { stringify } from "../utils/encoding";
+import headless from "../utils/headless";
+import Car from "./Car";
+import { NetworkConfig } from "./Network";
+import Settings, { SensorConfig } from "./Settings";
+import Track from "./Track";
+
+export default class WorkerPool {
+  private static workers: PoolWorker[] = [];
+
+  static get size() {
+    return WorkerPool.workers.length;
+  }
+
+  // Turbo and offline training run in tight loops on the main thread instead.
+  // Each worker only knows about its own cars, so they can't be used either
+  // when the cars interact with each other
+  static get active() {
+    const settings = Settings.singleton;
+    return (
+      WorkerPool.workers.length > 0 &&
+      !settings.turboMode &&
+      !settings.carCollisions &&
+      !settings.nearestCarInput &&
+      !headless()
+    );
+  }
+
+  static start() {
+    WorkerPool.stop();
+
+    const cores = navigator.hardwareConcurrency || 2;
+    const count = clamp(cores - 1, 1, Settings.singleton.maxWorkers);
+    for (let i = 0; i < count; i++) {
+      const entry: PoolWorker = {
+        worker: new Worker(new URL("./SimulationWorker.ts", import.meta.url), {
+          type: "module",
+        }),
+        cars: [],
+        generation: 0,
+        busy: false,
+        pendingDt: 0,
+      };
+      entry.worker.addEventListener("message", (event) =>
+        WorkerPool.receive(entry, event.data),
+      );
+      entry.worker.addEventListener("error", (event) =>
+        WorkerPool.fail(`${i}: ${event.message}`),
+      );
+      WorkerPool.workers.push(entry);
+    }
+  }
+
+  static stop() {
+    WorkerPool.release();
+    WorkerPool.workers.forEach(({ worker }) => worker.terminate());
+    WorkerPool.workers = [];
+  }
+
+  // Take back all the cars from the workers, ending their runs
+  static release() {
+    WorkerPool.workers.forEach((entry) => {
+      entry.cars.forEach((car) => {
+        car.remote = false;
+        if (!car.collided) {
+          car.endRun();
+        }
+      });
+      entry.cars = [];
+      entry.generation++;
+      entry.pendingDt = 0;
+    });
+  }
+
+  static assign(track: Track, cars: Car[]) {
+    const settings = stringify(Settings.singleton);
+    const workers = WorkerPool.workers;
+    workers.forEach((entry) => {
+      entry.cars = [];
+      entry.generation++;
+      entry.pendingDt = 0;
+    });
+    cars.forEach((car, idx) => {
+      car.remote = true;
+      workers[idx % workers.length].cars.push(car);
+    });
+
+    workers.forEach((entry) => {
+      const request: WorkerRequest = {
+        type: "setup",
+        generation: entry.generation,
+        settings,
+        track: track.name,
+        cars: entry.cars.map((car) => {
+          const state = new Float64Array(Car.stateSize);
+          car.writeState(state, 0);
+          return {
+            name: car.name,
+            color: car.color,
+            net: car.net!.config,
+            layout: car.layout?.map((sensor) => sensor.config),
+            state,
+          };
+        }),
+      };
+      entry.worker.postMessage(request);
+    });
+  }
+
+  static tick(dt: number) {
+    const maxDt = Settings.singleton.maxUpdateSecs;
+    WorkerPool.workers.forEach((entry) => {
+      if (entry.cars.length === 0) {
+        return;
+      }
+
+      // Don't queue up ticks while a worker is still busy, catch up later
+      entry.pendingDt = Math.min(entry.pendingDt + dt, maxDt);
+      if (entry.busy || entry.pendingDt <= 0) {
+        return;
+      }
+
+      const request: WorkerRequest = {
+        type: "tick",
+        generation: entry.generation,
+        dt: entry.pendingDt,
+      };
+      entry.busy = true;
+      entry.pendingDt = 0;
+      entry.worker.postMessage(request);
+    });
+  }
+
+  // The main thread simulates the cars from their last state when a worker
+  // fails, and for as long as the pool isn't started again
+  private static fail(message: string) {
+    console.error("Error in simulation worker", message);
+    WorkerPool.workers.forEach((entry) => {
+      entry.cars.forEach((car) => (car.remote = false));
+      entry.worker.terminate();
+    });
+    WorkerPool.workers = [];
+  }
+
+  private static receive(entry: PoolWorker, response: WorkerResponse) {
+    entry.busy = false;
+    if (response.type === "error") {
+      return WorkerPool.fail(response.message);
+    }
+    if (response.generation !== entry.generation) {
+      return;
+    }
+
+    response.events.forEach((event) => Car.log(event));
+    entry.cars.forEach((car, idx) => {
+      const wasCollided = car.collided;
+      car.readState(
+        response.state,
+        idx * response.stride,
+        response.stride - Car.stateSize,
+      );
+      // Record the scores of finished runs on the main thread
+      if (car.collided && !wasCollided) {
+        car.endRun();
+      }
+    });
+  }
+}
+
+interface PoolWorker {
+  worker: Worker;
+  cars: Car[];
+  generation: number;
+  busy: boolean;
+  pendingDt: number;
+}
+
+export type WorkerRequest =
+  | {
+      type: "setup";
+      generation: number;
+      settings: string;
+      track: string;
+      cars: {
+        name: string;
+        color: string;
+        net: NetworkConfig;
+        layout?: SensorConfig[];
+        state: Float64Array;
+      }[];
+    }
+  | {
+      type: "tick";
+      generation: number;
+      dt: number;
+    };
+
+export type WorkerResponse =
+  | {
+      type: "state";
+      generation: number;
+      stride: number;
+      state: Float64Array; // [car][state, ...sensor readings]
+      events: string[];
+    }
+  | {
+      type: "error";
+      generation: number;
+      message: string;
+    };
@@ -47,6 +47,11 @@ export default function DrivingTab() {
         });
       } else {
         track.render(context);
+        if (settings.renderRacingLine) {
+          track
+            .racingLine(settings.vehicleProfile(settings.populationVehicle))
+            .render(context);
+        }
         Car.renderAll(context);
       }
     }
@@ -93,8 +98,29 @@ export default function DrivingTab() {
     }
   }, [track, cars[0]]);
 
-  const highScore = Math.max(...cars.map((car) => car.score.score)) || 0;
+  const highScore =
+    Math.max(
+      ...cars.filter((car) => !car.driver).map((car) => car.score.score),
+    ) || 0;
+  const traffic = cars.filter((car) => car.driver);
+  const trafficScore = Math.max(...traffic.map((car) => car.score.score)) || 0;
   const activeCars = cars.filter((car) => !car.collided).length;
+  const sotaScore = settings.sotaScore[settings.currentTrack];
+  const sotaVehicle = settings.vehicleProfile(sotaScore?.vehicle ?? "standard");
+  const ofOptimal = sotaScore
+    ? track
+        .racingLine(sotaVehicle)
+        .ofOptimal(
+          sotaVehicle,
+          sotaScore.progress ?? sotaScore.laps,
+          sotaScore.time,
+        )
+    : 0;
+  const turboMinutes = (Date.now() - Car.turboStats.since) / 60000;
+  const turboRate =
+    Car.turboStats.since > 0 && turboMinutes > 0
+      ? Car.turboStats.iterations / turboMinutes
+      : 0;
 
   return (
     <IonGrid>
@@ -128,6 +154,18 @@ export default function DrivingTab() {
             >
               <IonIcon icon={Icons.repeatOutline} />
             </IonButton>
+            <IonButton
+              slot="end"
+              expand="block"
+              color={settings.turboMode ? "primary" : "medium"}
+              title="Toggle turbo training without live rendering"
+              onClick={() => {
+                Car.turboStats.since = 0;
+                settings.set({ turboMode: !settings.turboMode });
+              }}
+            >
+              <IonIcon icon={Icons.flashOutline} />
+            </IonButton>
             <IonButton
               slot="end"
               expand="block"
@@ -146,6 +184,23 @@ export default function DrivingTab() {
             <IonLabel>Leader Score</IonLabel>
             <IonChip slot="end">{Format(highScore, { prec: 2 })}</IonChip>
           </IonItem>
+          {traffic.length > 0 && (
+            <IonItem>
+              <IonLabel>Traffic Baseline</IonLabel>
+              <IonChip slot="end">{Format(trafficScore, { prec: 2 })}</IonChip>
+            </IonItem>
+          )}
+          {settings.turboMode && (
+            <IonItem>
+              <IonLabel>Turbo Training</IonLabel>
+              <IonChip slot="end">
+                {Format(turboRate, { prec: 1 })} iterations/min
+              </IonChip>
+              <IonChip slot="end">
+                Best {Format(Car.turboStats.bestScore, { prec: 2 })}
+              </IonChip>
+            </IonItem>
+          )}
           <IonItem>
             <IonSelect
               label="Track Selection"
@@ -173,6 +228,14 @@ export default function DrivingTab() {
                 { prec: 2 },
               )}
             </IonChip>
+            {ofOptimal > 0 && (
+              <IonChip
+                slot="end"
+                title="Pace of the best car compared to the ideal lap on the racing line"
+              >
+                {Format(ofOptimal, { prec: 1 })}% of optimal
+              </IonChip>
+            )}
           </IonItem>
           <IonItem>
             <IonLabel>&nbsp;</IonLabel>
@@ -206,6 +269,16 @@ export default function DrivingTab() {
               Manually Controlled Car
             </IonToggle>
           </IonItem>
+          <IonItem>
+            <IonToggle
+              checked={settings.renderRacingLine}
+              onIonChange={(e) => {
+                settings.set({ renderRacingLine: e.detail.checked });
+              }}
+            >
+              Show Racing Line
+            </IonToggle>
+          </IonItem>
           <IonItem>
             <IonToggle
               checked={!settings.helpDismissed}
@@ -109,33 +109,49 @@ function HelpPopup() {
               are between 0 and 1 indicating how far the car is from the edges
               of the track
             </p>
+            <p>
+              Besides these distance rays, sensors can be lidar fans of many
+              rays that each feed the network, cones that report the closest
+              edge in their field of view, probes of the grip of the surface, or
+              readings of the upcoming turn and of the car heading against the
+              direction of the track, between -1 and 1.
+            </p>
             <p>
               The network outputs two values between -1 and 1. One for the
-              acceleration of the car (negative means breaking), and the other
-              for steering (negative for left, positive for right).
+              acceleration of the car (negative means breaking, or backing up
+              once stopped if reversing is enabled), and the other for steering
+              (negative for left, positive for right).
             </p>
             <p>
               A simple simulation calculates the velocity and the angle of the
               car. Some basic friction is also calculated for speed and
-              steering, but I didn't bother with drifting or skidding. At least
-              not for now.
+              steering. The drift physics in the settings also let the tires
+              lose grip, so cars can oversteer and skid in tight corners or when
+              braking too hard.
             </p>
           </IonCol>
         </IonRow>
         <IonRow>
           <IonCol>
             <p>
-              The cars can "lose" if they hit the edges of the track. There are
-              also some criteria for crossing the finish line in wrong direction
-              or backtracking on the track. There is no collision between the
-              cars, so you can think of this as being in separate tracks or
-              ghosting.
+              The cars can "lose" if they hit the walls around the track. The
+              Rally, Icy Oval and Country tracks have grass verges, gravel traps
+              or ice patches that only slow the cars down or make them slide, so
+              they can recover from small mistakes. Cones, barriers and slow
+              moving blockers on the Slalom track have to be avoided like the
+              walls. There are also some criteria for crossing the finish line
+              in wrong direction or backtracking on the track. By default there
+              is no collision between the cars, so you can think of this as
+              being in separate tracks or ghosting. The race mode in the
+              settings makes them crash into each other instead, and scripted
+              traffic cars can be added for them to share the road with.
             </p>
             <p>
-              A car "wins" if it successfully laps the track 3 times. The
-              scoring is based on the distance travelled and the speed of the
-              car. The faster a car finishes the laps the better it scores. And
-              the further it gets before losing the better it scores.
+              A car "wins" if it successfully laps the track{" "}
+              {Settings.singleton.raceRules.lapsToWin} times. The scoring is
+              based on the distance travelled and the speed of the car. The
+              faster a car finishes the laps the better it scores. And the
+              further it gets before losing the better it scores.
             </p>
             <p>
               At the beginning of each iteration, 10 new cars are generated
@@ -150,6 +166,12 @@ function HelpPopup() {
               button to automatically advance to the next iteration after all
               cars have finished.
             </p>
+            <p>
+              The <IonIcon icon={Icons.flashOutline} /> button turns on turbo
+              training. The simulation runs as fast as your computer allows and
+              keeps advancing iterations, only showing a snapshot of the track
+              every few seconds. Great for leaving it running in the background.
+            </p>
           </IonCol>
         </IonRow>
         <IonRow>
@@ -187,15 +209,14 @@ function HelpPopup() {
                 sensor inputs and control outputs.
               </li>
               <li>
-                The ability to customize # of sensors, their angles, and ranges
-                are there, but I haven't made the UI for it yet. You can still
-                do it by mocking around in the saved settings, or just get the
-                source code: the link is on top right. Coming later.
+                The number of sensors, their kinds, angles and ranges can be
+                changed in the settings. The best network can be resized to fit
+                them, and keeps what it learned for the sensors that stay.
               </li>
               <li>
-                Ability to change the # of layers and neurons in the net is also
-                there, but doesn't have a UI either. You can use the same tricks
-                above to play with it. Or to view your current SOTA.
+                The layers and neurons of the best network can be changed in the
+                settings too, without throwing away its training. To view your
+                current SOTA, export the settings as text.
               </li>
               <li>
                 If you want your save files in plain text (json) instead of
@@ -234,6 +255,11 @@ class DemoTrack extends Track {
   get startingDirection() {
     return { x: 1, y: 0 };
   }
+
+  // The demo car is moved around by hand, so there is no progress to track
+  get checkpoints() {
+    return [];
+  }
 }
 
 HelpPage.init = () => {
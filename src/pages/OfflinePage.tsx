@@ -0,0 +1,74 @@
+import {
+  IonButton,
+  IonChip,
+  IonContent,
+  IonHeader,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonModal,
+  IonTitle,
+  IonToolbar,
+} from "@ionic/react";
+
+import TabApp from "../components/TabApp";
+import Offline from "../model/Offline";
+import Format from "../utils/format";
+
+export default function OfflinePage() {
+  const summary = Offline.useHook();
+
+  if (!summary) {
+    return null;
+  }
+
+  const improved = Object.entries(summary.improved);
+
+  return (
+    <IonModal isOpen={true} onDidDismiss={() => Offline.dismiss()}>
+      <IonHeader>
+        <IonToolbar>
+          <IonTitle>While you were away</IonTitle>
+        </IonToolbar>
+      </IonHeader>
+      <IonContent class="ion-padding">
+        <p>
+          You were gone for {Format.time(1000 * summary.awaySecs, { ago: "" })}.
+          Training kept going in the background.
+        </p>
+        <IonList>
+          <IonItem>
+            <IonLabel>Iterations run</IonLabel>
+            <IonChip slot="end">{summary.iterations}</IonChip>
+          </IonItem>
+          <IonItem>
+            <IonLabel>New all-time best network</IonLabel>
+            <IonChip slot="end">{summary.newBest ? "Yes" : "No"}</IonChip>
+          </IonItem>
+          <IonItem>
+            <IonLabel>Tracks improved</IonLabel>
+            <IonChip slot="end">{improved.length}</IonChip>
+          </IonItem>
+          {improved.map(([name, { before, after }]) => (
+            <IonItem key={name}>
+              <IonLabel>Best score on {name} Track</IonLabel>
+              <IonChip slot="end">
+                {Format(before, { prec: 2 })} &#8658;{" "}
+                {Format(after, { prec: 2 })}
+              </IonChip>
+            </IonItem>
+          ))}
+        </IonList>
+        <IonButton onClick={() => Offline.dismiss()}>Close</IonButton>
+      </IonContent>
+    </IonModal>
+  );
+}
+
+OfflinePage.init = () => {
+  TabApp.register({
+    path: "offline",
+    content: <OfflinePage />,
+    alwaysMounted: true,
+  });
+};
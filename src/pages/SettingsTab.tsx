@@ -10,22 +10,33 @@ import {
   IonCheckbox,
   IonCol,
   IonGrid,
+  IonInput,
   IonRange,
   IonRow,
+  IonSelect,
+  IonSelectOption,
   IonText,
   IonTextarea,
 } from "@ionic/react";
 
+import NetworkEditor from "../components/NetworkEditor";
+import SensorEditor from "../components/SensorEditor";
 import TabApp from "../components/TabApp";
+import Fitness from "../model/Fitness";
 import Settings from "../model/Settings";
 import database from "../utils/database";
 import { decode, encode } from "../utils/encoding";
 import Format from "../utils/format";
+import random from "../utils/random";
 
 export default function SettingsTab() {
   return (
     <IonGrid>
       <AppDataPanel />
+      <SimulationPanel />
+      <SensorsPanel />
+      <NetworkPanel />
+      <RaceRulesPanel />
       <AdvancedPanel />
       <ResetPanel />
       <DebugPanel />
@@ -141,6 +152,510 @@ function AppDataPanel() {
   );
 }
 
+function SimulationPanel() {
+  const settings = Settings.useHook();
+  const fitness = Fitness.current;
+  const vehicles = [
+    settings.vehicleProfile("standard"),
+    ...Object.values(settings.vehicleProfiles),
+  ];
+
+  return (
+    <IonCard>
+      <IonCardHeader>
+        <IonCardTitle>
+          <IonRow>
+            <IonCol size="12" className="ion-text-center">
+              <IonText>Simulation</IonText>
+            </IonCol>
+          </IonRow>
+        </IonCardTitle>
+      </IonCardHeader>
+      <IonCardContent>
+        <IonRow>
+          <IonCol size="12">
+            Collisions can be detected on the pixels of the track mask, or
+            exactly using the shape of the road and the car body. The vector
+            mode also detects crossing the starting line in the wrong direction
+            based on how the car moved, rather than where it is pointing.
+          </IonCol>
+          <IonCol size="12">
+            <IonSelect
+              label="Collision detection"
+              interface="alert"
+              value={settings.collisionMode}
+              onIonChange={(e) =>
+                settings.set({ collisionMode: e.detail.value })
+              }
+            >
+              <IonSelectOption value="raster">Pixel mask</IonSelectOption>
+              <IonSelectOption value="vector">Vector geometry</IonSelectOption>
+            </IonSelect>
+          </IonCol>
+        </IonRow>
+        <IonRow>
+          <IonCol size="12">
+            In race mode the cars start on a grid and crash into each other, and
+            the sensors see the other cars like the walls. Networks can also get
+            the distance to the closest car as an extra input, which they learn
+            to use from the next iteration. Both run all the cars on the main
+            thread.
+          </IonCol>
+          <IonCol size="6">
+            <IonCheckbox
+              justify="end"
+              checked={settings.carCollisions}
+              onIonChange={(e) =>
+                settings.set({ carCollisions: e.detail.checked })
+              }
+            >
+              Race mode
+            </IonCheckbox>
+          </IonCol>
+          <IonCol size="6">
+            <IonCheckbox
+              justify="end"
+              checked={settings.nearestCarInput}
+              onIonChange={(e) =>
+                settings.set({ nearestCarInput: e.detail.checked })
+              }
+            >
+              Nearest car input
+            </IonCheckbox>
+          </IonCol>
+        </IonRow>
+        <IonRow>
+          <IonCol size="12">
+            The sensor layout can evolve along with the networks. Each AI car
+            then moves its sensors around a little, within the limits below, and
+            the layout of the best car is saved with its network.
+          </IonCol>
+          <IonCol size="12">
+            <IonCheckbox
+              justify="end"
+              checked={settings.evolveSensors}
+              onIonChange={(e) =>
+                settings.set({ evolveSensors: e.detail.checked })
+              }
+            >
+              Evolve sensor layout
+            </IonCheckbox>
+          </IonCol>
+          <IonCol size="4">
+            <IonInput
+              label="Min range (px)"
+              type="number"
+              value={settings.sensorLimits.minRange}
+              onIonChange={(e) => {
+                const value = parseFloat(e.detail.value ?? "");
+                if (isFinite(value) && value > 0) {
+                  settings.set({
+                    sensorLimits: { ...settings.sensorLimits, minRange: value },
+                  });
+                }
+              }}
+            ></IonInput>
+          </IonCol>
+          <IonCol size="4">
+            <IonInput
+              label="Max range (px)"
+              type="number"
+              value={settings.sensorLimits.maxRange}
+              onIonChange={(e) => {
+                const value = parseFloat(e.detail.value ?? "");
+                if (isFinite(value) && value > 0) {
+                  settings.set({
+                    sensorLimits: { ...settings.sensorLimits, maxRange: value },
+                  });
+                }
+              }}
+            ></IonInput>
+          </IonCol>
+          <IonCol size="4">
+            <IonInput
+              label="Max angle (°)"
+              type="number"
+              value={Math.round(
+                (settings.sensorLimits.maxAngle * 180) / Math.PI,
+              )}
+              onIonChange={(e) => {
+                const value = parseFloat(e.detail.value ?? "");
+                if (isFinite(value) && value >= 0 && value <= 180) {
+                  settings.set({
+                    sensorLimits: {
+                      ...settings.sensorLimits,
+                      maxAngle: (value * Math.PI) / 180,
+                    },
+                  });
+                }
+              }}
+            ></IonInput>
+          </IonCol>
+        </IonRow>
+        <IonRow>
+          <IonCol size="12">
+            In the arcade physics cars always move where they are pointing. With
+            drift physics the tires have limited grip, so cars can slide
+            sideways, oversteer at high speed and lock the wheels when braking.
+            Networks trained on either model can drive on the other. The tire
+            grip is that of the standard vehicle, the other profiles have their
+            own.
+          </IonCol>
+          <IonCol size="12">
+            <IonSelect
+              label="Physics model"
+              interface="alert"
+              value={settings.physicsModel}
+              onIonChange={(e) =>
+                settings.set({ physicsModel: e.detail.value })
+              }
+            >
+              <IonSelectOption value="arcade">Arcade</IonSelectOption>
+              <IonSelectOption value="drift">Drift and grip</IonSelectOption>
+            </IonSelect>
+          </IonCol>
+          {settings.physicsModel === "drift" && (
+            <>
+              <IonCol size="4">
+                <IonInput
+                  label="Tire grip (px/s²)"
+                  type="number"
+                  value={settings.tireGrip}
+                  onIonChange={(e) => {
+                    const value = parseFloat(e.detail.value ?? "");
+                    if (isFinite(value) && value > 0) {
+                      settings.set({ tireGrip: value });
+                    }
+                  }}
+                ></IonInput>
+              </IonCol>
+              <IonCol size="4">
+                <IonInput
+                  label="Oversteer"
+                  type="number"
+                  value={settings.oversteer}
+                  onIonChange={(e) => {
+                    const value = parseFloat(e.detail.value ?? "");
+                    if (isFinite(value) && value >= 0) {
+                      settings.set({ oversteer: value });
+                    }
+                  }}
+                ></IonInput>
+              </IonCol>
+              <IonCol size="4">
+                <IonInput
+                  label="Braking grip"
+                  type="number"
+                  value={settings.brakingGrip}
+                  onIonChange={(e) => {
+                    const value = parseFloat(e.detail.value ?? "");
+                    if (isFinite(value) && value > 0 && value <= 1) {
+                      settings.set({ brakingGrip: value });
+                    }
+                  }}
+                ></IonInput>
+              </IonCol>
+            </>
+          )}
+          <IonCol size="12">
+            Cars can also be allowed to back up after braking to a stop, up to{" "}
+            {settings.maxReverseSpeed}px/s. Short reversing manoeuvres don't end
+            the run, as long as the car makes progress again in time.
+          </IonCol>
+          <IonCol size="6">
+            <IonCheckbox
+              justify="end"
+              checked={settings.allowReverse}
+              onIonChange={(e) =>
+                settings.set({ allowReverse: e.detail.checked })
+              }
+            >
+              Allow reversing
+            </IonCheckbox>
+          </IonCol>
+          <IonCol size="6">
+            <IonInput
+              label="Max reverse speed (px/s)"
+              type="number"
+              value={settings.maxReverseSpeed}
+              onIonChange={(e) => {
+                const value = parseFloat(e.detail.value ?? "");
+                if (isFinite(value) && value > 0) {
+                  settings.set({ maxReverseSpeed: value });
+                }
+              }}
+            ></IonInput>
+          </IonCol>
+        </IonRow>
+        <IonRow>
+          <IonCol size="12">
+            Vehicle profiles change the size and performance of the cars. The AI
+            cars switch vehicles from the next iteration, and best scores are
+            only compared between cars of the same vehicle.
+          </IonCol>
+          <IonCol size="6">
+            <IonSelect
+              label="AI vehicle"
+              interface="alert"
+              value={settings.populationVehicle}
+              onIonChange={(e) =>
+                settings.set({ populationVehicle: e.detail.value })
+              }
+            >
+              {vehicles.map((vehicle) => (
+                <IonSelectOption value={vehicle.name} key={vehicle.name}>
+                  {vehicle.label}
+                </IonSelectOption>
+              ))}
+            </IonSelect>
+          </IonCol>
+          <IonCol size="6">
+            <IonSelect
+              label="Manual vehicle"
+              interface="alert"
+              value={settings.manualVehicle}
+              onIonChange={(e) =>
+                settings.set({ manualVehicle: e.detail.value })
+              }
+            >
+              {vehicles.map((vehicle) => (
+                <IonSelectOption value={vehicle.name} key={vehicle.name}>
+                  {vehicle.label}
+                </IonSelectOption>
+              ))}
+            </IonSelect>
+          </IonCol>
+        </IonRow>
+        <IonRow>
+          <IonCol size="12">
+            The fitness function decides which cars are the best of each
+            iteration. Best scores are only compared with scores from the same
+            function. {fitness.description}.
+          </IonCol>
+          <IonCol size="12">
+            <IonSelect
+              label="Fitness function"
+              interface="alert"
+              value={fitness.name}
+              onIonChange={(e) =>
+                settings.set({ fitnessFunction: e.detail.value })
+              }
+            >
+              {Object.values(Fitness.registry).map((f) => (
+                <IonSelectOption value={f.name} key={f.name}>
+                  {f.label}
+                </IonSelectOption>
+              ))}
+            </IonSelect>
+          </IonCol>
+          {fitness.name === "custom" &&
+            Object.entries(settings.fitnessWeights).map(([name, weight]) => (
+              <IonCol size="6" key={name}>
+                <IonInput
+                  label={`Weight of ${name}`}
+                  type="number"
+                  value={weight}
+                  onIonChange={(e) => {
+                    const value = parseFloat(e.detail.value ?? "");
+                    if (isFinite(value)) {
+                      settings.set({
+                        fitnessWeights: {
+                          ...settings.fitnessWeights,
+                          [name]: value,
+                        },
+                      });
+                    }
+                  }}
+                ></IonInput>
+              </IonCol>
+            ))}
+        </IonRow>
+      </IonCardContent>
+    </IonCard>
+  );
+}
+
+function SensorsPanel() {
+  return (
+    <IonCard>
+      <IonCardHeader>
+        <IonCardTitle>
+          <IonRow>
+            <IonCol size="12" className="ion-text-center">
+              <IonText>Sensors</IonText>
+            </IonCol>
+          </IonRow>
+        </IonCardTitle>
+      </IonCardHeader>
+      <IonCardContent>
+        <IonRow>
+          <IonCol size="12">
+            Drag the ends of the sensors around the car to change their angle
+            and range, or edit them below. Changes only apply to the cars from
+            the next iteration, which starts right away.
+          </IonCol>
+        </IonRow>
+        <SensorEditor />
+      </IonCardContent>
+    </IonCard>
+  );
+}
+
+function NetworkPanel() {
+  return (
+    <IonCard>
+      <IonCardHeader>
+        <IonCardTitle>
+          <IonRow>
+            <IonCol size="12" className="ion-text-center">
+              <IonText>Network</IonText>
+            </IonCol>
+          </IonRow>
+        </IonCardTitle>
+      </IonCardHeader>
+      <IonCardContent>
+        <IonRow>
+          <IonCol size="12">
+            Layers and neurons can be added to the best network without losing
+            its training. New layers pass on their inputs as they are, and new
+            neurons start with zero weights until the next iterations make use
+            of them. Removed layers are folded into the next one, but removed
+            neurons take what they learned with them.
+          </IonCol>
+        </IonRow>
+        <NetworkEditor />
+      </IonCardContent>
+    </IonCard>
+  );
+}
+
+function RaceRulesPanel() {
+  const settings = Settings.useHook();
+  const rules = settings.raceRules;
+
+  function setRule(rule: keyof typeof rules, value?: string | null) {
+    const n = parseFloat(value ?? "");
+    if (isFinite(n) && n >= (rule === "lapsToWin" ? 1 : 0)) {
+      settings.set({ raceRules: { ...rules, [rule]: n } });
+    }
+  }
+
+  return (
+    <IonCard>
+      <IonCardHeader>
+        <IonCardTitle>
+          <IonRow>
+            <IonCol size="12" className="ion-text-center">
+              <IonText>Race Rules</IonText>
+            </IonCol>
+          </IonRow>
+        </IonCardTitle>
+      </IonCardHeader>
+      <IonCardContent>
+        <IonRow>
+          <IonCol size="12">
+            Cars win after completing the given number of laps. After the grace
+            period, cars that score less than the minimum progress per second of
+            racing are stopped early. Lower the progress rate on long or twisty
+            tracks, raise it to prune generations harder.
+          </IonCol>
+          <IonCol size="6">
+            <IonInput
+              label="Laps to win"
+              type="number"
+              min={1}
+              step="1"
+              value={rules.lapsToWin}
+              onIonChange={(e) => setRule("lapsToWin", e.detail.value)}
+            ></IonInput>
+          </IonCol>
+          <IonCol size="6">
+            <IonInput
+              label="Max run time (s, 0 = none)"
+              type="number"
+              min={0}
+              value={rules.maxRunSecs}
+              onIonChange={(e) => setRule("maxRunSecs", e.detail.value)}
+            ></IonInput>
+          </IonCol>
+          <IonCol size="6">
+            <IonInput
+              label="Minimum progress (/s)"
+              type="number"
+              min={0}
+              step="0.1"
+              value={rules.minProgressRate}
+              onIonChange={(e) => setRule("minProgressRate", e.detail.value)}
+            ></IonInput>
+          </IonCol>
+          <IonCol size="6">
+            <IonInput
+              label="Grace period (s)"
+              type="number"
+              min={0}
+              value={rules.gracePeriodSecs}
+              onIonChange={(e) => setRule("gracePeriodSecs", e.detail.value)}
+            ></IonInput>
+          </IonCol>
+        </IonRow>
+        <IonRow>
+          <IonCol size="12">
+            Traffic cars don't learn, they drive around the middle of the road
+            or the racing line at a steady fraction of their top speed, slowing
+            down for the bends. They don't avoid obstacles. Their score is a
+            baseline for the AI cars, and in race mode the AI cars have to get
+            past them.
+          </IonCol>
+          <IonCol size="6">
+            <IonInput
+              label="Traffic cars"
+              type="number"
+              min={0}
+              step="1"
+              value={settings.trafficCars}
+              onIonChange={(e) => {
+                const n = parseInt(e.detail.value ?? "");
+                if (isFinite(n) && n >= 0) {
+                  settings.set({ trafficCars: n });
+                }
+              }}
+            ></IonInput>
+          </IonCol>
+          <IonCol size="6">
+            <IonInput
+              label="Traffic speed (0-1)"
+              type="number"
+              min={0.1}
+              max={1}
+              step="0.1"
+              value={settings.trafficSpeed}
+              onIonChange={(e) => {
+                const n = parseFloat(e.detail.value ?? "");
+                if (isFinite(n) && n > 0 && n <= 1) {
+                  settings.set({ trafficSpeed: n });
+                }
+              }}
+            ></IonInput>
+          </IonCol>
+          <IonCol size="12">
+            <IonSelect
+              label="Traffic line"
+              interface="alert"
+              value={settings.trafficLine}
+              onIonChange={(e) => settings.set({ trafficLine: e.detail.value })}
+            >
+              <IonSelectOption value="middle">
+                Middle of the road
+              </IonSelectOption>
+              <IonSelectOption value="racing">Racing line</IonSelectOption>
+            </IonSelect>
+          </IonCol>
+        </IonRow>
+      </IonCardContent>
+    </IonCard>
+  );
+}
+
 function AdvancedPanel() {
   const settings = Settings.useHook();
   const [tps, setTps] = useState(settings.ticksPerSec);
@@ -258,6 +773,76 @@ function AdvancedPanel() {
             ></IonRange>
           </IonCol>
         </IonRow>
+        <IonRow>
+          <IonCol size="12">
+            Cars can be simulated in parallel on background threads. This scales
+            the number of cars in each iteration with the number of CPU cores (
+            {navigator.hardwareConcurrency || "unknown"}) and keeps the page
+            responsive.
+          </IonCol>
+          <IonCol size="12">
+            <IonCheckbox
+              justify="end"
+              checked={settings.useWorkers}
+              onIonChange={(e) =>
+                settings.set({ useWorkers: e.detail.checked })
+              }
+            >
+              Run simulations in parallel workers
+            </IonCheckbox>
+          </IonCol>
+        </IonRow>
+        <IonRow>
+          <IonCol size="12">
+            While the game is closed, training can catch up on up to{" "}
+            {settings.maxOfflineIterations} iterations the next time it is
+            loaded, one for every{" "}
+            {Format.time(1000 * settings.offlineSecsPerIteration, { ago: "" })}{" "}
+            away.
+          </IonCol>
+          <IonCol size="12">
+            <IonCheckbox
+              justify="end"
+              checked={settings.offlineProgress}
+              onIonChange={(e) =>
+                settings.set({ offlineProgress: e.detail.checked })
+              }
+            >
+              Simulate progress while away
+            </IonCheckbox>
+          </IonCol>
+        </IonRow>
+        <IonRow>
+          <IonCol size="12">
+            All the randomness in training comes from this seed. Starting from
+            the same seed and the same network replays the same generations.
+          </IonCol>
+          <IonCol size="6" className="ion-text-right">
+            Random seed:
+          </IonCol>
+          <IonCol size="4">
+            <IonInput
+              type="number"
+              value={settings.randomSeed}
+              onIonChange={(e) => {
+                const seed = parseInt(e.detail.value ?? "");
+                if (isFinite(seed)) {
+                  settings.set({ randomSeed: seed });
+                }
+              }}
+              className="ion-no-padding"
+            ></IonInput>
+          </IonCol>
+          <IonCol size="2">
+            <IonButton
+              size="small"
+              title="Pick a new random seed"
+              onClick={() => settings.set({ randomSeed: random.newSeed() })}
+            >
+              New
+            </IonButton>
+          </IonCol>
+        </IonRow>
       </IonCardContent>
     </IonCard>
   );
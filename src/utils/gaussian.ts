@@ -1,7 +1,9 @@
+import random from "./random";
+
 // Standard Normal variate using Box-Muller transform.
 export default function gaussian(mean = 0, stdev = 1) {
-  const u = 1 - Math.random(); // Converting [0,1) to (0,1]
-  const v = Math.random();
+  const u = 1 - random(); // Converting [0,1) to (0,1]
+  const v = random();
   const z = Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
   // Transform to the desired mean and standard deviation:
   return z * stdev + mean;
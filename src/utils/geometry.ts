@@ -0,0 +1,76 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export function segmentDistance(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len = dx * dx + dy * dy;
+  const t =
+    len > 0
+      ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len))
+      : 0;
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+export function isInPolygon(p: Point, points: Point[]): boolean {
+  // Even-odd ray casting
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if (
+      a.y > p.y !== b.y > p.y &&
+      p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Points along the edges of a closed polygon, at most `spacing` apart
+export function outline(points: Point[], spacing: number): Point[] {
+  return points.flatMap((a, i) => {
+    const b = points[(i + 1) % points.length];
+    const steps = Math.max(
+      1,
+      Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / spacing),
+    );
+    return Array.from({ length: steps }, (_, step) => ({
+      x: a.x + ((b.x - a.x) * step) / steps,
+      y: a.y + ((b.y - a.y) * step) / steps,
+    }));
+  });
+}
+
+// Distance along the polyline at each of its points
+export function arcLengths(polyline: Point[]): number[] {
+  const arcs = [0];
+  for (let i = 1; i < polyline.length; i++) {
+    const a = polyline[i - 1];
+    const b = polyline[i];
+    arcs.push(arcs[i - 1] + Math.hypot(b.x - a.x, b.y - a.y));
+  }
+  return arcs;
+}
+
+// Point at the given distance along the polyline, see arcLengths
+export function pointAlong(
+  polyline: Point[],
+  arcs: number[],
+  arc: number,
+): Point {
+  const i = Math.max(
+    0,
+    arcs.findIndex((a) => a >= arc),
+  );
+  if (i === 0) {
+    return { ...polyline[0] };
+  }
+  const a = polyline[i - 1];
+  const b = polyline[i];
+  const t = (arc - arcs[i - 1]) / (arcs[i] - arcs[i - 1] || 1);
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+}
@@ -0,0 +1,6 @@
+// Whether the simulation is running without a DOM to render into (e.g. tests)
+export default function headless(): boolean {
+  return headless.forced ?? typeof document === "undefined";
+}
+
+headless.forced = undefined as boolean | undefined;
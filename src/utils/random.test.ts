@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+
+import random from "./random";
+
+describe("random", () => {
+  it("repeats the same sequence from the same seeds", () => {
+    random.seed(1234, 5);
+    const first = Array.from({ length: 10 }, () => random());
+    random.seed(1234, 5);
+    expect(Array.from({ length: 10 }, () => random())).toEqual(first);
+  });
+
+  it("gives different sequences for different seeds", () => {
+    random.seed(1234, 5);
+    const first = random();
+    random.seed(1234, 6);
+    expect(random()).not.toBe(first);
+  });
+
+  it("draws from separate streams without moving the main sequence", () => {
+    random.seed(1234);
+    const first = [random(), random()];
+    random.seed(1234);
+    const stream = random.stream(7);
+    const drawn = random.using(stream, () => [random(), random()]);
+    expect([random(), random()]).toEqual(first);
+
+    // And the stream carries on from where it was left
+    const again = random.stream(7);
+    random.using(again, () => random());
+    expect(random.using(again, () => random())).toBe(drawn[1]);
+  });
+
+  it("stays within 0 and 1", () => {
+    random.seed(99);
+    for (let i = 0; i < 1000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
@@ -0,0 +1,51 @@
+// Seedable uniform PRNG (mulberry32) in [0, 1) to use instead of Math.random
+export default function random(): number {
+  let t = (state.value = (state.value + 0x6d2b79f5) | 0);
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+export interface RandomStream {
+  value: number; // Internal state, an int32
+}
+
+const global: RandomStream = { value: newSeed() };
+let state = global;
+
+// Reset the sequence, mixing all the given values into one seed
+random.seed = function (...seeds: number[]) {
+  global.value = mix(seeds);
+};
+
+// Separate sequence, whose numbers don't depend on what else was drawn
+random.stream = function (...seeds: number[]): RandomStream {
+  return { value: mix(seeds) };
+};
+
+// Draws the numbers of the callback from the given sequence
+random.using = function <T>(stream: RandomStream, fn: () => T): T {
+  const previous = state;
+  state = stream;
+  try {
+    return fn();
+  } finally {
+    state = previous;
+  }
+};
+
+random.newSeed = newSeed;
+
+function mix(seeds: number[]) {
+  let h = 0x811c9dc5;
+  for (const seed of seeds) {
+    h = Math.imul(h ^ (seed | 0), 0x01000193);
+    h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+    h ^= h >>> 13;
+  }
+  return h | 0;
+}
+
+function newSeed() {
+  return Math.floor(Math.random() * 0x100000000) | 0;
+}
@@ -0,0 +1,110 @@
+import { isInPolygon, Point, segmentDistance } from "./geometry";
+
+// DOM-free counterpart of a ComposedImage mask. Pixels are stored the same
+// way canvas image data is, so they can be checked with the same bitmasks
+export class RasterMask {
+  readonly buffer: Uint32Array;
+
+  constructor(readonly width: number, readonly height: number, fill = 0) {
+    this.buffer = new Uint32Array(width * height).fill(fill);
+  }
+
+  get(x: number, y: number): number {
+    const col = clampInt(x, 0, this.width - 1);
+    const row = clampInt(y, 0, this.height - 1);
+    return this.buffer[row * this.width + col];
+  }
+
+  clone(): RasterMask {
+    const copy = new RasterMask(this.width, this.height);
+    copy.buffer.set(this.buffer);
+    return copy;
+  }
+
+  // Copies back the pixels around the polygon from a mask of the same size
+  restorePolygon(source: RasterMask, points: Point[]) {
+    this.forEachPixel(
+      Math.min(...points.map((p) => p.x)),
+      Math.min(...points.map((p) => p.y)),
+      Math.max(...points.map((p) => p.x)),
+      Math.max(...points.map((p) => p.y)),
+      () => true,
+      (idx) => (this.buffer[idx] = source.buffer[idx]),
+    );
+  }
+
+  // Equivalent of stroking the polyline with round caps and joins
+  strokePolyline(points: Point[], thickness: number, color: number) {
+    const radius = thickness / 2;
+    for (let i = 0; i < Math.max(points.length - 1, 1); i++) {
+      const p1 = points[i];
+      const p2 = points[Math.min(i + 1, points.length - 1)];
+      this.forEachPixel(
+        Math.min(p1.x, p2.x) - radius,
+        Math.min(p1.y, p2.y) - radius,
+        Math.max(p1.x, p2.x) + radius,
+        Math.max(p1.y, p2.y) + radius,
+        (x, y) => segmentDistance({ x, y }, p1, p2) <= radius,
+        (idx) => (this.buffer[idx] = color),
+      );
+    }
+  }
+
+  fillPolygon(points: Point[], color: number) {
+    this.forEachPixel(
+      Math.min(...points.map((p) => p.x)),
+      Math.min(...points.map((p) => p.y)),
+      Math.max(...points.map((p) => p.x)),
+      Math.max(...points.map((p) => p.y)),
+      (x, y) => isInPolygon({ x, y }, points),
+      (idx) => (this.buffer[idx] = color),
+    );
+  }
+
+  // All the color bits found under the polygon, combined together
+  bitsInPolygon(points: Point[]): number {
+    let bits = 0;
+    this.forEachPixel(
+      Math.min(...points.map((p) => p.x)),
+      Math.min(...points.map((p) => p.y)),
+      Math.max(...points.map((p) => p.x)),
+      Math.max(...points.map((p) => p.y)),
+      (x, y) => isInPolygon({ x, y }, points),
+      (idx) => (bits |= this.buffer[idx]),
+    );
+    return bits;
+  }
+
+  private forEachPixel(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    test: (x: number, y: number) => boolean,
+    apply: (idx: number) => void,
+  ) {
+    const minX = clampInt(Math.floor(x1), 0, this.width - 1);
+    const minY = clampInt(Math.floor(y1), 0, this.height - 1);
+    const maxX = clampInt(Math.ceil(x2), 0, this.width - 1);
+    const maxY = clampInt(Math.ceil(y2), 0, this.height - 1);
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        if (test(x + 0.5, y + 0.5)) {
+          apply(y * this.width + x);
+        }
+      }
+    }
+  }
+}
+
+function clampInt(n = 0, min = 0, max = 1): number {
+  if (isNaN(n)) {
+    return ~~min;
+  } else if (n < min) {
+    return ~~min;
+  } else if (n > max) {
+    return ~~max;
+  } else {
+    return ~~n;
+  }
+}
@@ -0,0 +1,144 @@
+import { Point } from "./geometry";
+
+// Flattens an SVG path definition into a list of polylines (one per subpath).
+// Supports move, line, cubic and quadratic bezier commands and their shorthands
+export default function svgPath(d: string, curveSteps = 16): Point[][] {
+  const tokens = d.match(TOKENS) ?? [];
+  const polylines: Point[][] = [];
+
+  let current: Point[] = [];
+  let pos: Point = { x: 0, y: 0 };
+  let start: Point = { x: 0, y: 0 };
+  let lastControl: Point | undefined = undefined;
+  let lastCommand = "";
+  let idx = 0;
+
+  function num(): number {
+    const n = parseFloat(tokens[idx++]);
+    if (isNaN(n)) {
+      throw new Error(`Invalid path data near token ${idx}`);
+    }
+    return n;
+  }
+
+  function point(relative: boolean): Point {
+    const x = num();
+    const y = num();
+    return relative ? { x: pos.x + x, y: pos.y + y } : { x, y };
+  }
+
+  function lineTo(p: Point) {
+    if (current.length === 0) {
+      current.push({ ...pos });
+    }
+    current.push(p);
+    pos = p;
+  }
+
+  function curveTo(controls: Point[], end: Point) {
+    const p0 = pos;
+    for (let i = 1; i <= curveSteps; i++) {
+      lineTo(bezier([p0, ...controls, end], i / curveSteps));
+    }
+  }
+
+  while (idx < tokens.length) {
+    let command = tokens[idx];
+    if (/[a-z]/i.test(command)) {
+      idx++;
+    } else if (lastCommand && !"Zz".includes(lastCommand)) {
+      // Implicit repetition of the previous command
+      command =
+        lastCommand === "M" ? "L" : lastCommand === "m" ? "l" : lastCommand;
+    } else {
+      throw new Error(`Invalid path command ${command}`);
+    }
+
+    const relative = command === command.toLowerCase();
+    let control: Point | undefined = undefined;
+    switch (command.toUpperCase()) {
+      case "M":
+        if (current.length > 1) {
+          polylines.push(current);
+        }
+        current = [];
+        pos = point(relative);
+        start = pos;
+        break;
+      case "L":
+        lineTo(point(relative));
+        break;
+      case "H":
+        lineTo({ x: relative ? pos.x + num() : num(), y: pos.y });
+        break;
+      case "V":
+        lineTo({ x: pos.x, y: relative ? pos.y + num() : num() });
+        break;
+      case "C": {
+        const c1 = point(relative);
+        control = point(relative);
+        curveTo([c1, control], point(relative));
+        break;
+      }
+      case "S": {
+        const c1 = reflect(lastControl, lastCommand, "CS");
+        control = point(relative);
+        curveTo([c1, control], point(relative));
+        break;
+      }
+      case "Q":
+        control = point(relative);
+        curveTo([control], point(relative));
+        break;
+      case "T":
+        control = reflect(lastControl, lastCommand, "QT");
+        curveTo([control], point(relative));
+        break;
+      case "Z":
+        lineTo({ ...start });
+        polylines.push(current);
+        current = [];
+        break;
+      default:
+        throw new Error(`Unsupported path command ${command}`);
+    }
+
+    lastControl = control;
+    lastCommand = command;
+  }
+
+  if (current.length > 1) {
+    polylines.push(current);
+  }
+  return polylines;
+
+  function reflect(
+    control: Point | undefined,
+    command: string,
+    smoothable: string,
+  ): Point {
+    if (!control || !smoothable.includes(command.toUpperCase())) {
+      return { ...pos };
+    }
+    return { x: pos.x * 2 - control.x, y: pos.y * 2 - control.y };
+  }
+}
+
+const TOKENS =
+  /[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g;
+
+function bezier(points: Point[], t: number): Point {
+  // De Casteljau's algorithm
+  let pts = points;
+  while (pts.length > 1) {
+    const next: Point[] = [];
+    for (let i = 0; i < pts.length - 1; i++) {
+      next.push({
+        x: pts[i].x + (pts[i + 1].x - pts[i].x) * t,
+        y: pts[i].y + (pts[i + 1].y - pts[i].y) * t,
+      });
+    }
+    pts = next;
+  }
+  return pts[0];
+}
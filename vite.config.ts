@@ -23,6 +23,9 @@ export default defineConfig(({ mode }) => ({
         ]),
     ),
   },
+  worker: {
+    format: "es",
+  },
   build: {
     chunkSizeWarningLimit: 1024,
     sourcemap: mode === "development",